@@ -0,0 +1,90 @@
+import * as config from './config'
+import * as errors from './errors'
+import * as routes from './routes'
+
+// An entry of CLIENT_KEYS (or the 'client_keys' key of CONFIG_KV), keyed by the proxy key handed to a client:
+//   { "pk-alice-...": { "name": "alice", "routes": ["gemini"], "upstreamKeySecrets": { "gemini": "GEMINI_KEY_ALICE" } } }
+export interface ClientKey {
+    // Identifies the client in logs
+    name?: string
+    // Named routes this key may use; all of them when omitted
+    routes?: string[]
+    // Route name ==> secret holding the upstream key to use instead of the route's own
+    upstreamKeySecrets?: Record<string, string>
+}
+
+export interface Credentials {
+    // Sent upstream as the provider key; more than one when the route has a key pool
+    apiKeys: routes.UpstreamKey[]
+    // ClientKey.name, when the caller authenticated with a proxy key
+    client?: string
+}
+
+// Once CLIENT_KEYS is set, named routes only answer to proxy keys and use upstream keys held by the worker, and
+// the URL form is refused since it has no proxy key to check. Routes with 'byok' keep forwarding the caller's own
+// key as the provider key. Without CLIENT_KEYS, a route holding upstream keys only serves requests when it is
+// marked 'public'.
+export async function authenticate(
+    env: Env,
+    route: routes.Route,
+    routeName: string | undefined,
+    presentedKey: string | undefined
+): Promise<Credentials> {
+    if (routeName && route.byok) {
+        return { apiKeys: [{ key: requireKey(presentedKey), weight: 1 }] }
+    }
+
+    const clientKeys = await config.loadJsonSetting(env, 'CLIENT_KEYS')
+    if (!routeName) {
+        if (Object.keys(clientKeys).length > 0) {
+            throw new errors.ProxyError(
+                403,
+                'permission_error',
+                'Provider URLs in the path are disabled while CLIENT_KEYS is set, use /r/{route}/v1/...'
+            )
+        }
+        return { apiKeys: [{ key: requireKey(presentedKey), weight: 1 }] }
+    }
+    if (Object.keys(clientKeys).length === 0) {
+        // No proxy keys configured: the caller's key, or the route's keys if the operator opened it to anyone
+        const apiKeys = routes.upstreamKeys(env, route)
+        if (apiKeys.length === 0) {
+            return { apiKeys: [{ key: requireKey(presentedKey), weight: 1 }] }
+        }
+        if (!route.public) {
+            throw new errors.ProxyError(
+                403,
+                'permission_error',
+                `Route ${routeName} holds upstream keys; configure CLIENT_KEYS or mark the route public`
+            )
+        }
+        return { apiKeys }
+    }
+
+    const token = requireKey(presentedKey).replace(/^Bearer\s+/i, '')
+    const clientKey = Object.prototype.hasOwnProperty.call(clientKeys, token)
+        ? (clientKeys[token] as ClientKey | null)
+        : undefined
+    if (!clientKey || typeof clientKey !== 'object') {
+        throw new errors.ProxyError(401, 'authentication_error', 'Invalid API key')
+    }
+    if (Array.isArray(clientKey.routes) && !clientKey.routes.includes(routeName)) {
+        throw new errors.ProxyError(403, 'permission_error', `This API key can't use route ${routeName}`)
+    }
+
+    const secretName = clientKey.upstreamKeySecrets?.[routeName]
+    const apiKeys = secretName
+        ? [{ key: config.readSecret(env, secretName), weight: 1 }]
+        : routes.upstreamKeys(env, route)
+    if (apiKeys.length === 0) {
+        throw new errors.ProxyError(500, 'api_error', `Route ${routeName} has no upstream key for this client`)
+    }
+    return { apiKeys, client: clientKey.name }
+}
+
+function requireKey(presentedKey: string | undefined): string {
+    if (!presentedKey) {
+        throw new errors.ProxyError(401, 'authentication_error', 'Missing x-api-key or authorization header')
+    }
+    return presentedKey
+}
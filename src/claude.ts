@@ -0,0 +1,257 @@
+import * as types from './types'
+import * as provider from './provider'
+import * as utils from './utils'
+import * as errors from './errors'
+import * as config from './config'
+
+const DEFAULT_ANTHROPIC_VERSION = '2023-06-01'
+
+export interface Options {
+    anthropicVersion?: string
+    authHeader: 'x-api-key' | 'authorization'
+    betaAllow: string[]
+    betaDeny: string[]
+    betaRewrite: Record<string, string>
+    stripFields: string[]
+}
+
+// A route's own settings (routes.Route.claude) win over the CLAUDE_* variables, one option at a time
+export function optionsFromEnv(env: Env, overrides: Partial<Options> = {}): Options {
+    return {
+        anthropicVersion: env.CLAUDE_ANTHROPIC_VERSION || undefined,
+        authHeader: env.CLAUDE_AUTH_HEADER?.toLowerCase() === 'authorization' ? 'authorization' : 'x-api-key',
+        betaAllow: config.parseList(env.CLAUDE_BETA_ALLOW),
+        betaDeny: config.parseList(env.CLAUDE_BETA_DENY),
+        betaRewrite: config.parseMapping(env.CLAUDE_BETA_REWRITE),
+        stripFields: config.parseList(env.CLAUDE_STRIP_FIELDS),
+        ...overrides
+    }
+}
+
+// Forwards to an Anthropic-compatible upstream (relays, Bedrock-style gateways) with the body mostly untouched
+export class impl implements provider.Provider {
+    // Everything is forwarded as-is, so nothing is ever dropped
+    warnings: string[] = []
+    // The client's model name, set when an alias sent the request to a different upstream model
+    private aliasedFrom: string | undefined
+
+    constructor(
+        private options: Options,
+        private context: provider.Context = provider.defaultContext
+    ) {}
+
+    async convertToProviderRequest(request: Request, baseUrl: string, apiKey: string): Promise<Request> {
+        const claudeRequest = (await request.json()) as types.ClaudeRequest
+        const upstreamModel = config.resolveModelAlias(claudeRequest.model, this.context.aliases)
+        this.aliasedFrom = upstreamModel !== claudeRequest.model ? claudeRequest.model : undefined
+        return new Request(utils.buildUrl(baseUrl, 'messages'), {
+            method: 'POST',
+            headers: this.buildHeaders(request.headers, apiKey),
+            body: JSON.stringify(this.stripFields(this.withAliasedModel(claudeRequest)))
+        })
+    }
+
+    async convertToClaudeResponse(claudeResponse: Response): Promise<Response> {
+        if (!claudeResponse.ok) {
+            return errors.convertUpstreamError(claudeResponse)
+        }
+        // Already in Anthropic format, streaming or not; only the model name may need to change back
+        if (!this.aliasedFrom || !claudeResponse.body) {
+            return new Response(claudeResponse.body, claudeResponse)
+        }
+        const contentType = claudeResponse.headers.get('content-type') || ''
+        if (contentType.includes('text/event-stream')) {
+            return new Response(withStreamModel(claudeResponse.body, this.aliasedFrom), claudeResponse)
+        }
+        const claudeData = (await claudeResponse.json()) as types.ClaudeResponse
+        const headers = new Headers(claudeResponse.headers)
+        headers.delete('Content-Length')
+        return new Response(JSON.stringify({ ...claudeData, model: this.aliasedFrom }), {
+            status: claudeResponse.status,
+            headers
+        })
+    }
+
+    async countTokens(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        const claudeRequest = (await request.json()) as types.ClaudeRequest
+        const claudeResponse = await this.context.fetch(utils.buildUrl(baseUrl, 'messages/count_tokens'), {
+            method: 'POST',
+            headers: this.buildHeaders(request.headers, apiKey),
+            body: JSON.stringify(this.stripFields(this.withAliasedModel(claudeRequest)))
+        })
+        // Plenty of relays only implement /v1/messages; estimate locally like the other providers do
+        if (claudeResponse.status === 404 || claudeResponse.status === 405) {
+            return utils.countTokensResponse(utils.estimateInputTokens(claudeRequest))
+        }
+        return this.convertToClaudeResponse(claudeResponse)
+    }
+
+    async listModels(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        const url = new URL(utils.buildUrl(baseUrl, 'models'))
+        url.search = new URL(request.url).search
+        const claudeResponse = await this.context.fetch(url, { headers: this.buildHeaders(request.headers, apiKey) })
+        return this.convertToClaudeResponse(claudeResponse)
+    }
+
+    async retrieveModel(request: Request, baseUrl: string, apiKey: string, modelId: string): Promise<Response> {
+        const url = utils.buildUrl(baseUrl, `models/${encodeURIComponent(modelId)}`)
+        const claudeResponse = await this.context.fetch(url, { headers: this.buildHeaders(request.headers, apiKey) })
+        return this.convertToClaudeResponse(claudeResponse)
+    }
+
+    private buildHeaders(requestHeaders: Headers, apiKey: string): Headers {
+        const headers = new Headers(requestHeaders)
+        headers.delete('x-api-key')
+        headers.delete('authorization')
+        if (this.options.authHeader === 'authorization') {
+            headers.set('Authorization', `Bearer ${apiKey}`)
+        } else {
+            headers.set('x-api-key', apiKey)
+        }
+
+        headers.set(
+            'anthropic-version',
+            this.options.anthropicVersion || headers.get('anthropic-version') || DEFAULT_ANTHROPIC_VERSION
+        )
+
+        const betas = this.normalizeBetas(headers.get('anthropic-beta'))
+        if (betas.length > 0) {
+            headers.set('anthropic-beta', betas.join(','))
+        } else {
+            headers.delete('anthropic-beta')
+        }
+
+        headers.set('Content-Type', 'application/json')
+        return headers
+    }
+
+    // Rewrites first, then drops denied betas and, when an allowlist is configured, everything not on it
+    private normalizeBetas(header: string | null): string[] {
+        const { betaAllow, betaDeny, betaRewrite } = this.options
+        const betas: string[] = []
+        for (const beta of config.parseList(header || '')) {
+            const rewritten = beta in betaRewrite ? betaRewrite[beta] : beta
+            if (!rewritten || config.matchesAnyPattern(rewritten, betaDeny)) {
+                continue
+            }
+            if (betaAllow.length > 0 && !config.matchesAnyPattern(rewritten, betaAllow)) {
+                continue
+            }
+            if (!betas.includes(rewritten)) {
+                betas.push(rewritten)
+            }
+        }
+        return betas
+    }
+
+    private withAliasedModel(claudeRequest: types.ClaudeRequest): types.ClaudeRequest {
+        return { ...claudeRequest, model: config.resolveModelAlias(claudeRequest.model, this.context.aliases) }
+    }
+
+    // 'cache_control' is removed wherever it appears and 'thinking' also drops thinking blocks from the
+    // history; any other name is removed from the top level of the request
+    private stripFields(claudeRequest: types.ClaudeRequest): types.ClaudeRequest {
+        const stripFields = this.options.stripFields
+        if (stripFields.length === 0) {
+            return claudeRequest
+        }
+
+        const stripped: Record<string, any> = { ...claudeRequest }
+        for (const field of stripFields) {
+            delete stripped[field]
+        }
+
+        if (stripFields.includes('thinking')) {
+            stripped.messages = stripped.messages.map((message: types.ClaudeMessage) =>
+                typeof message.content === 'string'
+                    ? message
+                    : {
+                          ...message,
+                          content: message.content.filter(
+                              content => content.type !== 'thinking' && content.type !== 'redacted_thinking'
+                          )
+                      }
+            )
+        }
+
+        if (stripFields.includes('cache_control')) {
+            if (Array.isArray(stripped.system)) {
+                stripped.system = stripped.system.map(withoutCacheControl)
+            }
+            if (Array.isArray(stripped.tools)) {
+                stripped.tools = stripped.tools.map(withoutCacheControl)
+            }
+            stripped.messages = stripped.messages.map((message: types.ClaudeMessage) =>
+                typeof message.content === 'string'
+                    ? message
+                    : { ...message, content: message.content.map(withoutCacheControl) }
+            )
+        }
+
+        return stripped as types.ClaudeRequest
+    }
+}
+
+// Rewrites the model in message_start, the only event that names it, and passes the rest through untouched
+function withStreamModel(body: ReadableStream<Uint8Array>, model: string): ReadableStream<Uint8Array> {
+    const decoder = new TextDecoder()
+    const encoder = new TextEncoder()
+    let pending = ''
+    let rewritten = false
+
+    return body.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                // Still decoded after the rewrite, so a character split across chunks comes out whole
+                pending += decoder.decode(chunk, { stream: true })
+                if (rewritten) {
+                    controller.enqueue(encoder.encode(pending))
+                    pending = ''
+                    return
+                }
+                const lineEnd = pending.lastIndexOf('\n')
+                if (lineEnd < 0) {
+                    return
+                }
+                const lines = pending
+                    .slice(0, lineEnd + 1)
+                    .split('\n')
+                    .map(line => {
+                        if (rewritten || !line.startsWith('data:') || !line.includes('"message_start"')) {
+                            return line
+                        }
+                        try {
+                            const data = JSON.parse(line.slice(5).trim())
+                            if (data.type !== 'message_start' || !data.message) {
+                                return line
+                            }
+                            rewritten = true
+                            return `data: ${JSON.stringify({ ...data, message: { ...data.message, model } })}`
+                        } catch {
+                            return line
+                        }
+                    })
+                pending = pending.slice(lineEnd + 1)
+                controller.enqueue(encoder.encode(lines.join('\n') + (rewritten ? pending : '')))
+                if (rewritten) {
+                    pending = ''
+                }
+            },
+            flush(controller) {
+                pending += decoder.decode()
+                if (pending) {
+                    controller.enqueue(encoder.encode(pending))
+                }
+            }
+        })
+    )
+}
+
+// Breakpoints sit on system blocks, tools and content blocks, including those nested in a tool_result
+function withoutCacheControl(block: any): any {
+    const { cache_control, ...rest } = block
+    if (rest.type === 'tool_result' && Array.isArray(rest.content)) {
+        rest.content = rest.content.map(withoutCacheControl)
+    }
+    return rest
+}
@@ -0,0 +1,107 @@
+import * as errors from './errors'
+
+// Helpers for reading the worker's optional env vars (wrangler vars or secrets)
+
+// 'a, b  c' ==> ['a', 'b', 'c']
+export function parseList(value: string | undefined): string[] {
+    return (value || '')
+        .split(/[\s,]+/)
+        .map(item => item.trim())
+        .filter(item => item !== '')
+}
+
+// 'a=b, c=' ==> { a: 'b', c: '' }
+export function parseMapping(value: string | undefined): Record<string, string> {
+    const mapping: Record<string, string> = {}
+    for (const entry of parseList(value)) {
+        const separator = entry.indexOf('=')
+        if (separator <= 0) {
+            continue
+        }
+        mapping[entry.slice(0, separator)] = entry.slice(separator + 1)
+    }
+    return mapping
+}
+
+// Only '*' is special and matches any run of characters, e.g. 'computer-use-*'
+export function matchesPattern(value: string, pattern: string): boolean {
+    if (!pattern.includes('*')) {
+        return value === pattern
+    }
+    const escaped = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')
+    return new RegExp(`^${escaped}$`).test(value)
+}
+
+export function matchesAnyPattern(value: string, patterns: string[]): boolean {
+    return patterns.some(pattern => matchesPattern(value, pattern))
+}
+
+// [pattern, backend model] pairs, most specific first
+export type ModelAliases = Array<[string, string]>
+
+// Upstream keys are referenced by secret name so they never appear in ROUTES or CLIENT_KEYS themselves
+export function readSecret(env: Env, name: string): string {
+    const secret = (env as unknown as Record<string, unknown>)[name]
+    if (typeof secret !== 'string' || secret === '') {
+        throw new errors.ProxyError(500, 'api_error', `Secret ${name} is not set`)
+    }
+    return secret
+}
+
+// Reads a JSON object setting from the CONFIG_KV namespace, falling back to the env var of the same name. KV wins so
+// tables can be edited without a redeploy.
+export async function loadJsonSetting(
+    env: Env,
+    name: 'MODEL_ALIASES' | 'ROUTES' | 'CLIENT_KEYS'
+): Promise<Record<string, unknown>> {
+    const raw = (await env.CONFIG_KV?.get(name.toLowerCase(), { cacheTtl: 60 })) || env[name]
+    if (!raw) {
+        return {}
+    }
+
+    let value: unknown
+    try {
+        value = JSON.parse(raw)
+    } catch {
+        throw new errors.ProxyError(500, 'api_error', `${name} is not valid JSON`)
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new errors.ProxyError(500, 'api_error', `${name} must be a JSON object`)
+    }
+    return value as Record<string, unknown>
+}
+
+// MODEL_ALIASES (or the 'model_aliases' key of CONFIG_KV) is a JSON object. String values apply to every route;
+// object values only to that provider type and are tried first:
+//   { "claude-3-5-haiku-*": "gemini-2.5-flash", "openai": { "claude-3-5-haiku-*": "gpt-4o-mini", "*": "gpt-4o" } }
+export async function loadModelAliases(env: Env, type: string): Promise<ModelAliases> {
+    const table = await loadJsonSetting(env, 'MODEL_ALIASES')
+    const typeTable = table[type]
+    const typeAliases = typeTable && typeof typeTable === 'object' ? parseModelAliases(typeTable) : []
+    return [...typeAliases, ...parseModelAliases(table)]
+}
+
+// Returns the backend model for a requested Claude model name, or the name itself when nothing matches
+export function resolveModelAlias(model: string, aliases: ModelAliases): string {
+    const match = aliases.find(([pattern]) => matchesPattern(model, pattern))
+    return match ? match[1] : model
+}
+
+// Keeps the string entries of a {pattern: model} table, most specific first
+export function parseModelAliases(table: object): ModelAliases {
+    const aliases = Object.entries(table).filter(
+        (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== ''
+    )
+    return sortAliases(aliases)
+}
+
+// Exact names first, then patterns with the most literal characters, so a catch-all '*' works as the route's
+// default model wherever it appears in the table
+function sortAliases(aliases: ModelAliases): ModelAliases {
+    const specificity = (pattern: string) =>
+        pattern.includes('*') ? pattern.replace(/\*/g, '').length : Number.MAX_SAFE_INTEGER
+    return [...aliases].sort(([a], [b]) => specificity(b) - specificity(a))
+}
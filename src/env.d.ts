@@ -0,0 +1,39 @@
+// Optional settings. They are usually secrets or dashboard vars, so `wrangler types` can't see them
+declare namespace Cloudflare {
+    interface Env {
+        // claude: anthropic-version sent upstream, overriding the client's (default 2023-06-01)
+        CLAUDE_ANTHROPIC_VERSION?: string
+        // claude: 'x-api-key' (default) or 'authorization' for gateways that expect a Bearer token
+        CLAUDE_AUTH_HEADER?: string
+        // claude: anthropic-beta filtering, comma separated; '*' wildcards are allowed
+        CLAUDE_BETA_ALLOW?: string
+        CLAUDE_BETA_DENY?: string
+        // claude: 'from=to' pairs; an empty 'to' drops the beta
+        CLAUDE_BETA_REWRITE?: string
+        // claude: request fields the upstream rejects, e.g. 'cache_control,thinking,metadata'
+        CLAUDE_STRIP_FIELDS?: string
+        // JSON table mapping Claude model names or '*' patterns to backend models, see config.loadModelAliases
+        MODEL_ALIASES?: string
+        // JSON table of named upstreams served at /r/{name}/v1/..., see routes.Route
+        ROUTES?: string
+        // JSON table of proxy keys handed to clients, see auth.ClientKey; best stored as a secret
+        CLIENT_KEYS?: string
+        // 'false' turns off the /{type}/{provider_url}/v1/... form so only named routes are served
+        ALLOW_URL_ROUTES?: string
+        // Upstream hosts ('*.openai.com') or URL prefixes the /{type}/{provider_url}/... form may call; empty allows any
+        UPSTREAM_ALLOWLIST?: string
+        // 'true' rejects localhost, private and link-local upstream addresses, redirects included
+        UPSTREAM_DENY_PRIVATE?: string
+        // Milliseconds until upstream response headers / the first body chunk; unset or 0 waits indefinitely
+        UPSTREAM_CONNECT_TIMEOUT_MS?: string
+        UPSTREAM_FIRST_BYTE_TIMEOUT_MS?: string
+        // Optional KV namespace for settings that change without a redeploy (keys 'model_aliases', 'routes', 'client_keys')
+        CONFIG_KV?: KVNamespace
+        // Optional KV namespace where exhausted pool keys are remembered across isolates
+        KEY_STATE_KV?: KVNamespace
+        // Optional Durable Object binding (class UsageMeter) that records token usage per key, route, model and day
+        USAGE_METER?: DurableObjectNamespace<import('./usage').UsageMeter>
+        // Secret that unlocks GET /admin/usage; the endpoint answers 404 while it's unset
+        ADMIN_KEY?: string
+    }
+}
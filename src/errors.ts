@@ -0,0 +1,206 @@
+export type ClaudeErrorType =
+    | 'invalid_request_error'
+    | 'authentication_error'
+    | 'permission_error'
+    | 'not_found_error'
+    | 'request_too_large'
+    | 'rate_limit_error'
+    | 'api_error'
+    | 'overloaded_error'
+
+const CLAUDE_ERROR_TYPES: ClaudeErrorType[] = [
+    'invalid_request_error',
+    'authentication_error',
+    'permission_error',
+    'not_found_error',
+    'request_too_large',
+    'rate_limit_error',
+    'api_error',
+    'overloaded_error'
+]
+
+export interface ClaudeErrorBody {
+    type: 'error'
+    error: {
+        type: ClaudeErrorType
+        message: string
+    }
+}
+
+// Thrown anywhere in the request path; the fetch handler turns it into an Anthropic-shaped response
+export class ProxyError extends Error {
+    constructor(
+        public status: number,
+        public type: ClaudeErrorType,
+        message: string
+    ) {
+        super(message)
+    }
+}
+
+export function errorBody(type: ClaudeErrorType, message: string): ClaudeErrorBody {
+    return { type: 'error', error: { type, message } }
+}
+
+export function errorResponse(status: number, type: ClaudeErrorType, message: string, headers?: HeadersInit): Response {
+    const responseHeaders = new Headers(headers)
+    responseHeaders.set('Content-Type', 'application/json')
+    return new Response(JSON.stringify(errorBody(type, message)), { status, headers: responseHeaders })
+}
+
+export function errorTypeForStatus(status: number): ClaudeErrorType {
+    switch (status) {
+        case 400:
+        case 405:
+        case 422:
+            return 'invalid_request_error'
+        case 401:
+            return 'authentication_error'
+        case 403:
+            return 'permission_error'
+        case 404:
+            return 'not_found_error'
+        case 413:
+            return 'request_too_large'
+        case 429:
+            return 'rate_limit_error'
+        case 503:
+        case 529:
+            return 'overloaded_error'
+        default:
+            return status >= 400 && status < 500 ? 'invalid_request_error' : 'api_error'
+    }
+}
+
+// The inverse of errorTypeForStatus, for errors that only carry a type (e.g. an SSE error event)
+export function statusForErrorType(type: ClaudeErrorType): number {
+    switch (type) {
+        case 'invalid_request_error':
+            return 400
+        case 'authentication_error':
+            return 401
+        case 'permission_error':
+            return 403
+        case 'not_found_error':
+            return 404
+        case 'request_too_large':
+            return 413
+        case 'rate_limit_error':
+            return 429
+        case 'overloaded_error':
+            return 529
+        default:
+            return 500
+    }
+}
+
+// Gemini reports a google.rpc status string that is more precise than the HTTP code,
+// e.g. a bad key comes back as 400 INVALID_ARGUMENT with reason API_KEY_INVALID
+function errorTypeForGeminiStatus(status: string, reasons: string[]): ClaudeErrorType | undefined {
+    if (reasons.includes('API_KEY_INVALID') || status === 'UNAUTHENTICATED') {
+        return 'authentication_error'
+    }
+    switch (status) {
+        case 'INVALID_ARGUMENT':
+        case 'FAILED_PRECONDITION':
+        case 'OUT_OF_RANGE':
+            return 'invalid_request_error'
+        case 'PERMISSION_DENIED':
+            return 'permission_error'
+        case 'NOT_FOUND':
+            return 'not_found_error'
+        case 'RESOURCE_EXHAUSTED':
+            return 'rate_limit_error'
+        case 'UNAVAILABLE':
+            return 'overloaded_error'
+        case 'INTERNAL':
+        case 'DEADLINE_EXCEEDED':
+            return 'api_error'
+        default:
+            return undefined
+    }
+}
+
+function errorTypeForOpenAICode(code: string): ClaudeErrorType | undefined {
+    switch (code) {
+        case 'invalid_api_key':
+            return 'authentication_error'
+        case 'insufficient_quota':
+        case 'rate_limit_exceeded':
+            return 'rate_limit_error'
+        case 'model_not_found':
+            return 'not_found_error'
+        case 'context_length_exceeded':
+            return 'invalid_request_error'
+        default:
+            return undefined
+    }
+}
+
+// Reads the error object out of an Anthropic ({type: 'error', error: {type, message}}), OpenAI
+// ({error: {message, type, code}}), Gemini ({error: {code, message, status}}, sometimes wrapped
+// in an array) or relay-specific body
+export function parseUpstreamError(data: any): { message?: string; type?: ClaudeErrorType } {
+    const payload = Array.isArray(data) ? data[0] : data
+    if (!payload || typeof payload !== 'object') {
+        return {}
+    }
+
+    const error = payload.error
+    if (error && typeof error === 'object') {
+        if (payload.type === 'error' && CLAUDE_ERROR_TYPES.includes(error.type)) {
+            return { message: error.message, type: error.type }
+        }
+        if (typeof error.status === 'string') {
+            const reasons = Array.isArray(error.details)
+                ? error.details.map((detail: any) => detail?.reason).filter(Boolean)
+                : []
+            return { message: error.message, type: errorTypeForGeminiStatus(error.status, reasons) }
+        }
+        const code = typeof error.code === 'string' ? error.code : error.type
+        return { message: error.message, type: typeof code === 'string' ? errorTypeForOpenAICode(code) : undefined }
+    }
+    if (typeof error === 'string') {
+        return { message: error }
+    }
+
+    const message = payload.message ?? payload.detail
+    return { message: typeof message === 'string' ? message : undefined }
+}
+
+// Upstreams sometimes report failures inside an otherwise successful SSE body
+export function extractStreamError(data: any): { type: ClaudeErrorType; message: string } | undefined {
+    const payload = Array.isArray(data) ? data[0] : data
+    if (!payload || typeof payload !== 'object' || !payload.error) {
+        return undefined
+    }
+
+    const parsed = parseUpstreamError(payload)
+    const code = typeof payload.error === 'object' ? payload.error.code : undefined
+    return {
+        type: parsed.type || (typeof code === 'number' ? errorTypeForStatus(code) : 'api_error'),
+        message: parsed.message || 'Upstream returned an error'
+    }
+}
+
+export async function convertUpstreamError(response: Response): Promise<Response> {
+    const text = await response.text()
+
+    let parsed: { message?: string; type?: ClaudeErrorType } = {}
+    try {
+        parsed = parseUpstreamError(JSON.parse(text))
+    } catch {
+        // Not JSON (e.g. an HTML error page from a relay); fall back to the raw text below
+    }
+
+    const message = parsed.message || text.trim().slice(0, 500) || response.statusText || `HTTP ${response.status}`
+    const type = parsed.type || errorTypeForStatus(response.status)
+
+    const headers = new Headers()
+    const retryAfter = response.headers.get('retry-after')
+    if (retryAfter) {
+        headers.set('retry-after', retryAfter)
+    }
+
+    return errorResponse(response.status, type, message, headers)
+}
@@ -1,10 +1,23 @@
 import * as types from './types'
 import * as provider from './provider'
 import * as utils from './utils'
+import * as errors from './errors'
+import * as models from './models'
+import * as schema from './schema'
+import * as config from './config'
 
 export class impl implements provider.Provider {
+    // Echoed back in the Claude response's model field
+    private model = ''
+    warnings: string[] = []
+    reasoningTokens?: number
+
+    constructor(private context: provider.Context = provider.defaultContext) {}
+
     async convertToProviderRequest(request: Request, baseUrl: string, apiKey: string): Promise<Request> {
         const claudeRequest = (await request.json()) as types.ClaudeRequest
+        this.model = claudeRequest.model
+        claudeRequest.model = config.resolveModelAlias(claudeRequest.model, this.context.aliases)
         const geminiRequest = this.convertToGeminiRequestBody(claudeRequest)
 
         const endpoint = `models/${claudeRequest.model}:${claudeRequest.stream ? 'streamGenerateContent?alt=sse' : 'generateContent'}`
@@ -23,7 +36,7 @@ export class impl implements provider.Provider {
 
     async convertToClaudeResponse(geminiResponse: Response): Promise<Response> {
         if (!geminiResponse.ok) {
-            return geminiResponse
+            return errors.convertUpstreamError(geminiResponse)
         }
 
         const contentType = geminiResponse.headers.get('content-type') || ''
@@ -36,6 +49,72 @@ export class impl implements provider.Provider {
         }
     }
 
+    async countTokens(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        const claudeRequest = (await request.json()) as types.ClaudeRequest
+        claudeRequest.model = config.resolveModelAlias(claudeRequest.model, this.context.aliases)
+        const geminiRequest = this.convertToGeminiRequestBody(claudeRequest)
+        // countTokens wants the fully qualified model name inside generateContentRequest
+        geminiRequest.model = `models/${claudeRequest.model}`
+
+        const headers = new Headers(request.headers)
+        headers.set('x-goog-api-key', apiKey)
+        headers.set('Content-Type', 'application/json')
+
+        const url = utils.buildUrl(baseUrl, `models/${claudeRequest.model}:countTokens`)
+        const geminiResponse = await this.context.fetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ generateContentRequest: geminiRequest })
+        })
+        if (!geminiResponse.ok) {
+            return errors.convertUpstreamError(geminiResponse)
+        }
+
+        const geminiData = (await geminiResponse.json()) as types.GeminiCountTokensResponse
+        return utils.countTokensResponse(geminiData.totalTokens)
+    }
+
+    async listModels(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        const claudeModels: types.ClaudeModel[] = []
+        let pageToken = ''
+        do {
+            const query = `pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`
+            const geminiResponse = await this.context.fetch(utils.buildUrl(baseUrl, `models?${query}`), {
+                headers: { 'x-goog-api-key': apiKey }
+            })
+            if (!geminiResponse.ok) {
+                return errors.convertUpstreamError(geminiResponse)
+            }
+
+            const geminiData = (await geminiResponse.json()) as types.GeminiModelList
+            for (const model of geminiData.models || []) {
+                // Embedding and AQA models can't serve /v1/messages, so keep them out of model pickers
+                if (model.supportedGenerationMethods?.includes('generateContent')) {
+                    claudeModels.push(this.convertModel(model))
+                }
+            }
+            pageToken = geminiData.nextPageToken || ''
+        } while (pageToken)
+
+        return models.modelListResponse(claudeModels, new URL(request.url).searchParams)
+    }
+
+    async retrieveModel(request: Request, baseUrl: string, apiKey: string, modelId: string): Promise<Response> {
+        const url = utils.buildUrl(baseUrl, `models/${encodeURIComponent(modelId)}`)
+        const geminiResponse = await this.context.fetch(url, { headers: { 'x-goog-api-key': apiKey } })
+        if (!geminiResponse.ok) {
+            return errors.convertUpstreamError(geminiResponse)
+        }
+
+        const model = (await geminiResponse.json()) as types.GeminiModel
+        return models.modelResponse(this.convertModel(model))
+    }
+
+    // Gemini doesn't say when a model was created, so created_at is models.UNKNOWN_CREATED_AT
+    private convertModel(model: types.GeminiModel): types.ClaudeModel {
+        return models.toClaudeModel(model.name.replace(/^models\//, ''), model.displayName)
+    }
+
     private convertToGeminiRequestBody(claudeRequest: types.ClaudeRequest): types.GeminiRequest {
         const toolUseMap = this.buildToolUseMap(claudeRequest.messages)
         const contents = this.convertMessages(claudeRequest.messages, toolUseMap)
@@ -45,31 +124,76 @@ export class impl implements provider.Provider {
             contents
         }
 
+        const systemText = utils.extractSystemText(claudeRequest.system)
+        if (systemText) {
+            geminiRequest.systemInstruction = { parts: [{ text: systemText }] }
+        }
+
         if (claudeRequest.tools && claudeRequest.tools.length > 0) {
             geminiRequest.tools = [
                 {
                     functionDeclarations: claudeRequest.tools.map(tool => ({
                         name: tool.name,
                         description: tool.description,
-                        parameters: utils.cleanJsonSchema(tool.input_schema)
+                        parameters: schema.toolParameters(tool, 'gemini', this.warnings)
                     }))
                 }
             ]
-        }
 
-        if (claudeRequest.temperature !== undefined || claudeRequest.max_tokens !== undefined) {
-            geminiRequest.generationConfig = {}
-            if (claudeRequest.temperature !== undefined) {
-                geminiRequest.generationConfig.temperature = claudeRequest.temperature
+            const toolConfig = this.convertToolChoice(claudeRequest.tool_choice)
+            if (toolConfig) {
+                geminiRequest.toolConfig = toolConfig
             }
-            if (claudeRequest.max_tokens !== undefined) {
-                geminiRequest.generationConfig.maxOutputTokens = claudeRequest.max_tokens
+        }
+
+        const generationConfig: NonNullable<types.GeminiRequest['generationConfig']> = {}
+        if (claudeRequest.temperature !== undefined) {
+            generationConfig.temperature = claudeRequest.temperature
+        }
+        if (claudeRequest.top_p !== undefined) {
+            generationConfig.topP = claudeRequest.top_p
+        }
+        if (claudeRequest.top_k !== undefined) {
+            generationConfig.topK = claudeRequest.top_k
+        }
+        if (claudeRequest.max_tokens !== undefined) {
+            generationConfig.maxOutputTokens = claudeRequest.max_tokens
+        }
+        const stopSequences = utils.clampStopSequences(claudeRequest.stop_sequences, 5, this.warnings)
+        if (stopSequences.length > 0) {
+            generationConfig.stopSequences = stopSequences
+        }
+        if (claudeRequest.metadata?.user_id) {
+            this.warnings.push('metadata.user_id dropped (not supported by Gemini)')
+        }
+        if (claudeRequest.thinking?.type === 'enabled') {
+            generationConfig.thinkingConfig = {
+                thinkingBudget: claudeRequest.thinking.budget_tokens,
+                includeThoughts: true
             }
         }
+        if (Object.keys(generationConfig).length > 0) {
+            geminiRequest.generationConfig = generationConfig
+        }
 
         return geminiRequest
     }
 
+    // Gemini has no switch for parallel calls, so disable_parallel_tool_use can't be honoured
+    private convertToolChoice(toolChoice?: types.ClaudeToolChoice): types.GeminiRequest['toolConfig'] {
+        switch (toolChoice?.type) {
+            case 'any':
+                return { functionCallingConfig: { mode: 'ANY' } }
+            case 'tool':
+                return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.name] } }
+            case 'none':
+                return { functionCallingConfig: { mode: 'NONE' } }
+            default:
+                // AUTO is Gemini's default
+                return undefined
+        }
+    }
+
     private buildToolUseMap(messages: types.ClaudeMessage[]): Map<string, string> {
         const toolUseMap = new Map<string, string>()
 
@@ -90,10 +214,11 @@ export class impl implements provider.Provider {
         const contents: types.GeminiContent[] = []
 
         for (const message of messages) {
+            const role = message.role === 'assistant' ? 'model' : 'user'
             if (typeof message.content === 'string') {
                 contents.push({
                     parts: [{ text: message.content }],
-                    role: message.role === 'assistant' ? 'model' : 'user'
+                    role
                 })
                 continue
             }
@@ -101,50 +226,97 @@ export class impl implements provider.Provider {
             const textParts: types.GeminiPart[] = []
             const toolUseParts: types.GeminiPart[] = []
             const toolResultParts: types.GeminiPart[] = []
+            const toolResultImageParts: types.GeminiPart[] = []
 
             for (const content of message.content) {
                 switch (content.type) {
                     case 'text':
                         textParts.push({ text: content.text })
                         break
-                    case 'tool_use':
-                        toolUseParts.push({
+                    case 'image':
+                        textParts.push(this.convertImageSource(content.source))
+                        break
+                    case 'tool_use': {
+                        const toolUse = decodeToolUseId(content.id)
+                        const functionCall: types.GeminiPart = {
                             functionCall: {
+                                id: toolUse?.id,
                                 name: content.name,
                                 args: content.input
                             }
-                        })
+                        }
+                        if (toolUse?.sig) {
+                            functionCall.thoughtSignature = toolUse.sig
+                        }
+                        toolUseParts.push(functionCall)
                         break
-                    case 'tool_result':
-                        const functionName = toolUseMap.get(content.tool_use_id)
+                    }
+                    case 'tool_result': {
+                        const toolUse = decodeToolUseId(content.tool_use_id)
+                        const functionName = toolUse?.name || toolUseMap.get(content.tool_use_id)
                         if (functionName) {
-                            toolResultParts.push({
-                                functionResponse: {
-                                    name: functionName,
-                                    response: { content: content.content }
-                                }
-                            })
+                            toolResultParts.push(
+                                this.convertToolResult(
+                                    toolUse?.id,
+                                    functionName,
+                                    content.content,
+                                    !!content.is_error,
+                                    toolResultImageParts
+                                )
+                            )
                         }
                         break
+                    }
                 }
             }
 
-            if (textParts.length > 0 || toolUseParts.length > 0) {
-                contents.push({
-                    parts: [...textParts, ...toolUseParts],
-                    role: message.role === 'assistant' ? 'model' : 'user'
-                })
+            // Function responses answer the previous model turn, so they lead the user turn
+            const parts = [...toolResultParts, ...toolResultImageParts, ...textParts, ...toolUseParts]
+            if (parts.length > 0) {
+                contents.push({ parts, role })
             }
+        }
 
-            if (toolResultParts.length > 0) {
-                contents.push({
-                    parts: toolResultParts,
-                    role: 'tool'
-                })
+        return contents
+    }
+
+    private convertImageSource(source: types.ClaudeImageSource): types.GeminiPart {
+        if (source.type === 'base64') {
+            return { inlineData: { mimeType: source.media_type, data: source.data } }
+        }
+        return { fileData: { fileUri: source.url } }
+    }
+
+    // functionResponse only carries JSON, so images in the result follow it as separate parts
+    private convertToolResult(
+        id: string | undefined,
+        functionName: string,
+        content: types.ClaudeToolResultContent,
+        isError: boolean,
+        imageParts: types.GeminiPart[]
+    ): types.GeminiPart {
+        let output: string
+        if (typeof content === 'string') {
+            output = content
+        } else {
+            const texts: string[] = []
+            for (const item of content) {
+                if (item.type === 'text') {
+                    texts.push(item.text)
+                } else if (item.type === 'image') {
+                    imageParts.push(this.convertImageSource(item.source))
+                }
             }
+            output = texts.join('\n')
         }
 
-        return contents
+        return {
+            functionResponse: {
+                id,
+                name: functionName,
+                response: isError ? { error: output } : { output }
+            }
+        }
     }
 
     private async convertNormalResponse(geminiResponse: Response): Promise<Response> {
@@ -154,7 +326,11 @@ export class impl implements provider.Provider {
             id: utils.generateId(),
             type: 'message',
             role: 'assistant',
-            content: []
+            model: this.model,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { input_tokens: 0, output_tokens: 0 }
         }
 
         if (geminiData.candidates && geminiData.candidates.length > 0) {
@@ -162,7 +338,13 @@ export class impl implements provider.Provider {
             let hasToolUse = false
 
             for (const part of candidate.content.parts) {
-                if ('text' in part) {
+                if ('text' in part && part.thought) {
+                    claudeResponse.content.push({
+                        type: 'thinking',
+                        thinking: part.text,
+                        signature: part.thoughtSignature || ''
+                    })
+                } else if ('text' in part) {
                     claudeResponse.content.push({
                         type: 'text',
                         text: part.text
@@ -171,27 +353,21 @@ export class impl implements provider.Provider {
                     hasToolUse = true
                     claudeResponse.content.push({
                         type: 'tool_use',
-                        id: utils.generateId(),
+                        id: encodeToolUseId(part),
                         name: part.functionCall.name,
                         input: part.functionCall.args
                     })
                 }
             }
 
-            if (hasToolUse) {
-                claudeResponse.stop_reason = 'tool_use'
-            } else if (candidate.finishReason === 'MAX_TOKENS') {
-                claudeResponse.stop_reason = 'max_tokens'
-            } else {
-                claudeResponse.stop_reason = 'end_turn'
-            }
+            claudeResponse.stop_reason = hasToolUse
+                ? 'tool_use'
+                : utils.geminiFinishReasonToStopReason(candidate.finishReason)
         }
 
         if (geminiData.usageMetadata) {
-            claudeResponse.usage = {
-                input_tokens: geminiData.usageMetadata.promptTokenCount,
-                output_tokens: geminiData.usageMetadata.candidatesTokenCount
-            }
+            claudeResponse.usage = utils.geminiUsageToClaudeUsage(geminiData.usageMetadata)
+            this.reasoningTokens = geminiData.usageMetadata.thoughtsTokenCount
         }
 
         return new Response(JSON.stringify(claudeResponse), {
@@ -203,34 +379,81 @@ export class impl implements provider.Provider {
     }
 
     private async convertStreamResponse(geminiResponse: Response): Promise<Response> {
-        return utils.processProviderStream(geminiResponse, (jsonStr, textBlockIndex, toolUseBlockIndex) => {
-            const geminiData = JSON.parse(jsonStr) as types.GeminiResponse
+        return utils.processProviderStream(geminiResponse, this.model, (data, emitter) => {
+            const geminiData = data as types.GeminiResponse
+            // Every chunk carries cumulative usage; the last one holds the final counts
+            if (geminiData.usageMetadata) {
+                emitter.setUsage(utils.geminiUsageToClaudeUsage(geminiData.usageMetadata))
+                this.reasoningTokens = geminiData.usageMetadata.thoughtsTokenCount
+            }
             if (!geminiData.candidates || geminiData.candidates.length === 0) {
-                return null
+                return
             }
 
             const candidate = geminiData.candidates[0]
-            const events: string[] = []
-            let currentTextIndex = textBlockIndex
-            let currentToolIndex = toolUseBlockIndex
 
             if (candidate.content) {
                 for (const part of candidate.content.parts) {
-                    if ('text' in part && part.text) {
-                        events.push(...utils.processTextPart(part.text, currentTextIndex))
-                        currentTextIndex++
+                    if ('text' in part && part.thought) {
+                        emitter.thinking(part.text, part.thoughtSignature)
+                    } else if ('text' in part && part.text) {
+                        emitter.text(part.text)
                     } else if ('functionCall' in part) {
-                        events.push(...utils.processToolUsePart(part.functionCall, currentToolIndex))
-                        currentToolIndex++
+                        emitter.toolUse({ ...part.functionCall, id: encodeToolUseId(part) })
                     }
                 }
             }
 
-            return {
-                events,
-                textBlockIndex: currentTextIndex,
-                toolUseBlockIndex: currentToolIndex
+            if (candidate.finishReason) {
+                emitter.setStopReason(utils.geminiFinishReasonToStopReason(candidate.finishReason))
             }
         })
     }
 }
+
+// What a functionCall needs to be replayed on the next turn
+interface ToolUseIdPayload {
+    // Gemini's own call id, when the model returned one
+    id?: string
+    name: string
+    sig?: string
+    // Keeps ids unique when Gemini returns neither an id nor a signature
+    nonce?: string
+}
+
+const TOOL_USE_ID_PREFIX = 'toolu_gm_'
+
+// Claude clients send tool_use ids back untouched, so the functionCall's id, name and thoughtSignature
+// travel inside it (base64url, which stays within Anthropic's [a-zA-Z0-9_-] id alphabet)
+function encodeToolUseId(part: Extract<types.GeminiPart, { functionCall: unknown }>): string {
+    const payload: ToolUseIdPayload = { name: part.functionCall.name }
+    if (part.functionCall.id) {
+        payload.id = part.functionCall.id
+    }
+    if (part.thoughtSignature) {
+        payload.sig = part.thoughtSignature
+    }
+    if (!payload.id && !payload.sig) {
+        payload.nonce = utils.generateId()
+    }
+
+    let binary = ''
+    for (const byte of new TextEncoder().encode(JSON.stringify(payload))) {
+        binary += String.fromCharCode(byte)
+    }
+    return TOOL_USE_ID_PREFIX + btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Ids minted by other providers (or by older versions of this one) don't decode and fall back to the history lookup
+function decodeToolUseId(toolUseId: string): ToolUseIdPayload | undefined {
+    if (!toolUseId.startsWith(TOOL_USE_ID_PREFIX)) {
+        return undefined
+    }
+    try {
+        const binary = atob(toolUseId.slice(TOOL_USE_ID_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/'))
+        const payload = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))))
+        return payload && typeof payload.name === 'string' ? payload : undefined
+    } catch {
+        return undefined
+    }
+}
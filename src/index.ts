@@ -2,79 +2,434 @@ import * as provider from './provider'
 import * as gemini from './gemini'
 import * as openai from './openai'
 import * as oainew from './oainew'
+import * as responses from './responses'
+import * as claude from './claude'
 import * as test from './test'
+import * as errors from './errors'
+import * as utils from './utils'
+import * as routes from './routes'
+import * as auth from './auth'
+import * as keypool from './keypool'
+import * as upstream from './upstream'
+import * as config from './config'
+import * as sse from './sse'
+import * as usage from './usage'
+
+export { UsageMeter } from './usage'
 
 export default {
     async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
         try {
-            return await handle(request)
+            return await handle(request, env, ctx)
         } catch (error) {
+            if (error instanceof errors.ProxyError) {
+                return errors.errorResponse(error.status, error.type, error.message)
+            }
             console.error(error)
-            return new Response('Internal server error', { status: 500 })
+            return errors.errorResponse(500, 'api_error', 'Internal server error')
         }
     }
 } satisfies ExportedHandler<Env>
 
-async function handle(request: Request): Promise<Response> {
-    if (request.method !== 'POST') {
-        return new Response('Method not allowed', { status: 405 })
+async function handle(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    if (new URL(request.url).pathname === '/admin/usage') {
+        return usage.handleAdmin(request, env)
     }
 
-    const { typeParam, baseUrl, err: pathErr } = parsePath(new URL(request.url))
+    const { routeName, typeParam, baseUrl, endpoint, modelId, err: pathErr } = parsePath(new URL(request.url))
     if (pathErr) {
         return pathErr
     }
 
-    const { apiKey, mutatedHeaders, err: apiKeyErr } = getApiKey(request.headers)
-    if (apiKeyErr) {
-        return apiKeyErr
+    const expectedMethod = endpoint === 'models' || endpoint === 'model' ? 'GET' : 'POST'
+    if (request.method !== expectedMethod) {
+        return errors.errorResponse(405, 'invalid_request_error', 'Method not allowed')
+    }
+
+    let route: routes.Route
+    if (routeName) {
+        route = await routes.loadRoute(env, routeName)
+    } else if (!routes.urlRoutesAllowed(env)) {
+        return errors.errorResponse(
+            404,
+            'not_found_error',
+            'Provider URLs in the path are disabled, use /r/{route}/v1/...'
+        )
+    } else if (typeParam && baseUrl) {
+        route = { type: typeParam, baseUrl }
+    } else {
+        return errors.errorResponse(500, 'api_error', 'Internal server error, missing params')
+    }
+
+    const { clientKey, mutatedHeaders } = takeClientKey(request.headers)
+    const primary = await prepareBackend(env, route, routeName, clientKey, mutatedHeaders)
+    const claudeRequest = new Request(request, { headers: primary.headers })
+    // Messages requests take their keys in sendToBackend, so the pool only turns once per request
+    switch (endpoint) {
+        case 'count_tokens':
+            return await primary.provider().countTokens(claudeRequest, route.baseUrl, await firstKey(primary))
+        case 'models':
+            return await primary.provider().listModels(claudeRequest, route.baseUrl, await firstKey(primary))
+        case 'model':
+            return await primary
+                .provider()
+                .retrieveModel(claudeRequest, route.baseUrl, await firstKey(primary), modelId!)
+    }
+
+    // Read once: every key, retry and fallback rebuilds its provider request from it
+    const body = await claudeRequest.text()
+    let requestedModel = ''
+    let clientStream = false
+    try {
+        const parsed = JSON.parse(body)
+        requestedModel = parsed.model || ''
+        clientStream = parsed.stream === true
+    } catch {
+        // The test provider echoes any body; everything else needs the JSON it converts
+        if (route.type !== 'test') {
+            throw new errors.ProxyError(400, 'invalid_request_error', 'Request body is not valid JSON')
+        }
     }
 
-    if (!apiKey || !typeParam || !baseUrl) {
-        return new Response('Internal server error, missing params', { status: 500 })
+    const messages: MessagesRequest = {
+        url: request.url,
+        body,
+        requestedModel,
+        clientStream,
+        route,
+        routeName,
+        clientKey,
+        clientHeaders: mutatedHeaders,
+        primary
     }
+    // An upstream forced to answer in one piece would otherwise leave a streaming client waiting in silence.
+    // keepAlive replays a complete reply, so the backends are asked for one.
+    if (clientStream && !sse.upstreamStream(route.upstreamMode || 'auto', clientStream)) {
+        return sse.keepAlive(requestedModel, forwardMessages(env, ctx, { ...messages, clientStream: false }))
+    }
+    return await forwardMessages(env, ctx, messages)
+}
 
-    let provider: provider.Provider
-    switch (typeParam) {
+// A /v1/messages request, read and authenticated, on its way to the primary backend and its fallbacks
+interface MessagesRequest {
+    url: string
+    body: string
+    requestedModel: string
+    clientStream: boolean
+    route: routes.Route
+    routeName: string | undefined
+    clientKey: string | undefined
+    clientHeaders: Headers
+    primary: Backend
+}
+
+async function forwardMessages(env: Env, ctx: ExecutionContext, messages: MessagesRequest): Promise<Response> {
+    const steps: Array<routes.FallbackStep | undefined> = [undefined, ...(messages.route.fallback || [])]
+    let failed: { backend: Backend; attempt: Attempt } | undefined
+    let timedOut = false
+    for (const step of steps) {
+        let backend = messages.primary
+        if (step) {
+            try {
+                const stepRouteName = step.route || messages.routeName
+                const stepRoute = step.route ? await routes.loadRoute(env, step.route) : messages.route
+                backend = await prepareBackend(
+                    env,
+                    stepRoute,
+                    stepRouteName,
+                    messages.clientKey,
+                    messages.clientHeaders,
+                    step.model
+                )
+            } catch (error) {
+                // A broken fallback shouldn't hide why the previous backend failed
+                console.error('Skipping fallback', step, error)
+                continue
+            }
+        }
+
+        const retries = Math.min(backend.route.retries || 0, MAX_RETRIES)
+        for (let retry = 0; ; retry++) {
+            let attempt: Attempt | undefined
+            try {
+                attempt = await sendToBackend(
+                    backend,
+                    messages.url,
+                    withUpstreamMode(backend.route, messages.body, messages.clientStream)
+                )
+            } catch (error) {
+                // Anything but an unreachable or silent upstream (host policy violations, a bug in a conversion)
+                // would fail the same way on every retry
+                if (!(error instanceof upstream.NetworkError) && !(error instanceof upstream.TimeoutError)) {
+                    throw error
+                }
+                console.error(`Upstream ${backend.name} failed:`, error)
+                timedOut = error instanceof upstream.TimeoutError
+            }
+
+            if (attempt && !isRetryable(attempt.response)) {
+                const response = await sse.matchClientMode(
+                    await attempt.provider.convertToClaudeResponse(attempt.response),
+                    messages.clientStream
+                )
+                return usage.track(
+                    env,
+                    ctx,
+                    withBackend(
+                        utils.withWarnings(response, attempt.provider.warnings),
+                        backend,
+                        messages.requestedModel
+                    ),
+                    {
+                        key: await usage.clientLabel(backend.client, messages.clientKey),
+                        route: backend.name,
+                        model: backend.model(messages.requestedModel)
+                    },
+                    () => attempt.provider.reasoningTokens
+                )
+            }
+            if (attempt) {
+                await failed?.attempt.response.body?.cancel()
+                failed = { backend, attempt }
+            }
+
+            const delay = retry < retries ? backoffDelay(retry, attempt?.response) : undefined
+            if (delay === undefined) {
+                break
+            }
+            await new Promise(resolve => setTimeout(resolve, delay))
+        }
+    }
+
+    // Everything failed: report the last upstream answer, or a 504/502 when every attempt timed out or errored
+    if (failed) {
+        const response = await failed.attempt.provider.convertToClaudeResponse(failed.attempt.response)
+        return withBackend(
+            utils.withWarnings(response, failed.attempt.provider.warnings),
+            failed.backend,
+            messages.requestedModel
+        )
+    }
+    if (timedOut) {
+        throw new errors.ProxyError(504, 'api_error', 'Upstream timed out')
+    }
+    throw new errors.ProxyError(502, 'api_error', 'Upstream request failed')
+}
+
+const MAX_RETRIES = 5
+const BACKOFF_BASE_MS = 500
+const BACKOFF_MAX_MS = 8000
+// A longer Retry-After moves on to the next fallback instead of holding the client
+const MAX_RETRY_AFTER_SECONDS = 30
+const BACKEND_HEADER = 'x-claude-proxy-backend'
+
+// A route (or fallback step) ready to receive the request
+interface Backend {
+    name: string
+    route: routes.Route
+    headers: Headers
+    guard: upstream.Guard
+    timeouts: upstream.Timeouts
+    pool: keypool.KeyPool
+    // Providers keep per-request state (model, warnings), so every attempt gets a fresh one
+    provider: () => provider.Provider
+    // ClientKey.name of the caller, when they used a proxy key
+    client?: string
+    // The upstream model a request for requestedModel is sent as
+    model: (requestedModel: string) => string
+}
+
+interface Attempt {
+    provider: provider.Provider
+    response: Response
+}
+
+async function prepareBackend(
+    env: Env,
+    route: routes.Route,
+    routeName: string | undefined,
+    clientKey: string | undefined,
+    clientHeaders: Headers,
+    // Set by a fallback step; replaces whatever the client asked for
+    model?: string
+): Promise<Backend> {
+    const { apiKeys, client } = await auth.authenticate(env, route, routeName, clientKey)
+    const headers = new Headers(clientHeaders)
+    for (const [name, value] of Object.entries(route.headers || {})) {
+        headers.set(name, value)
+    }
+
+    // Named routes come from the operator's config, so only their redirects need the allowlist
+    const guard = new upstream.Guard(upstream.policyFromEnv(env), routeName ? route.baseUrl : undefined)
+    guard.check(route.baseUrl)
+    // Aliasing every model to the step's model keeps the client's model name in the response
+    const aliases: config.ModelAliases = model ? [['*', model]] : await routes.modelAliases(env, route)
+    const context: provider.Context = { aliases, fetch: guard.fetch }
+    if (!createProvider(route, env, context)) {
+        throw new errors.ProxyError(400, 'invalid_request_error', `Unsupported type: ${route.type}`)
+    }
+
+    const name = routeName || route.type
+    return {
+        name,
+        route,
+        headers,
+        guard,
+        timeouts: upstream.timeoutsFromEnv(env, {
+            connectMs: route.connectTimeoutMs,
+            firstByteMs: route.firstByteTimeoutMs
+        }),
+        pool: new keypool.KeyPool(
+            env,
+            routeName || route.baseUrl,
+            apiKeys,
+            route.keySelection,
+            route.keyCooldownSeconds
+        ),
+        provider: () => createProvider(route, env, context)!,
+        client,
+        model: requestedModel => config.resolveModelAlias(requestedModel, aliases)
+    }
+}
+
+async function firstKey(backend: Backend): Promise<string> {
+    return (await backend.pool.candidates())[0]
+}
+
+// Tries the backend's keys in pool order, moving on while they report exhausted quota
+async function sendToBackend(backend: Backend, url: string, body: string): Promise<Attempt> {
+    const candidateKeys = await backend.pool.candidates()
+    for (let i = 0; ; i++) {
+        const provider = backend.provider()
+        const attemptRequest = new Request(url, { method: 'POST', headers: backend.headers, body })
+        const providerRequest = await provider.convertToProviderRequest(
+            attemptRequest,
+            backend.route.baseUrl,
+            candidateKeys[i]
+        )
+        const response = await upstream.fetchWithTimeouts(backend.guard.fetch, providerRequest, backend.timeouts)
+        if (!(await keypool.isExhausted(response))) {
+            return { provider, response }
+        }
+        // Even the last key is cooled down so the next request starts with one that may have recovered; a lone
+        // key has nothing to be ordered against
+        if (candidateKeys.length > 1) {
+            await backend.pool.coolDown(candidateKeys[i], keypool.retryAfterSeconds(response))
+        }
+        if (i >= candidateKeys.length - 1) {
+            return { provider, response }
+        }
+        await response.body?.cancel()
+    }
+}
+
+// Flips the body's stream flag when the route's upstream only speaks the other mode
+function withUpstreamMode(route: routes.Route, body: string, clientStream: boolean): string {
+    const upstreamStream = sse.upstreamStream(route.upstreamMode || 'auto', clientStream)
+    if (upstreamStream === clientStream) {
+        return body
+    }
+    try {
+        return JSON.stringify({ ...JSON.parse(body), stream: upstreamStream })
+    } catch {
+        return body
+    }
+}
+
+function isRetryable(response: Response): boolean {
+    return response.status === 408 || response.status === 429 || response.status >= 500
+}
+
+// Exponential with jitter, never sooner than Retry-After; undefined when Retry-After asks for too long
+function backoffDelay(retry: number, response: Response | undefined): number | undefined {
+    const retryAfter = response ? keypool.retryAfterSeconds(response) : undefined
+    if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_SECONDS) {
+        return undefined
+    }
+    const backoff = Math.min(BACKOFF_BASE_MS * 2 ** retry, BACKOFF_MAX_MS) * (0.5 + Math.random() / 2)
+    return Math.max(backoff, (retryAfter || 0) * 1000)
+}
+
+// '{route}/{upstream model}' in the x-claude-proxy-backend header
+function withBackend(response: Response, backend: Backend, requestedModel: string): Response {
+    const headers = new Headers(response.headers)
+    const label = `${backend.name}/${backend.model(requestedModel)}`
+    // Header values must stay printable ASCII
+    headers.set(BACKEND_HEADER, label.replace(/[^\x20-\x7e]/g, '?'))
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers })
+}
+
+function createProvider(route: routes.Route, env: Env, context: provider.Context): provider.Provider | undefined {
+    switch (route.type) {
         case 'gemini':
-            provider = new gemini.impl()
-            break
+            return new gemini.impl(context)
         case 'openai':
-            provider = new openai.impl()
-            break
+            return new openai.impl(context)
         case 'oainew':
-            provider = new oainew.impl()
-            break
+            return new oainew.impl(context)
+        case 'responses':
+            return new responses.impl(context, route.strictTools === true)
+        case 'claude':
+            return new claude.impl(claude.optionsFromEnv(env, route.claude), context)
         case 'test':
-            provider = new test.impl()
-            break
-        default:
-            return new Response('Unsupported type', { status: 400 })
+            return new test.impl(context)
     }
+    return undefined
+}
+
+type Endpoint = 'messages' | 'count_tokens' | 'models' | 'model'
 
-    const providerRequest = await provider.convertToProviderRequest(
-        new Request(request, { headers: mutatedHeaders }),
-        baseUrl,
-        apiKey
-    )
-    const providerResponse = await fetch(providerRequest)
-    return await provider.convertToClaudeResponse(providerResponse)
+// ':model_id' matches any single path segment
+const ENDPOINT_SUFFIXES: Array<{ endpoint: Endpoint; parts: string[] }> = [
+    { endpoint: 'count_tokens', parts: ['v1', 'messages', 'count_tokens'] },
+    { endpoint: 'messages', parts: ['v1', 'messages'] },
+    { endpoint: 'models', parts: ['v1', 'models'] },
+    { endpoint: 'model', parts: ['v1', 'models', ':model_id'] }
+]
+
+function matchesSuffix(pathParts: string[], parts: string[]): boolean {
+    const tail = pathParts.slice(-parts.length)
+    return tail.length === parts.length && parts.every((part, i) => part.startsWith(':') || part === tail[i])
 }
 
-function parsePath(url: URL): { typeParam?: string; baseUrl?: string; err?: Response } {
+function parsePath(url: URL): {
+    routeName?: string
+    typeParam?: string
+    baseUrl?: string
+    endpoint?: Endpoint
+    modelId?: string
+    err?: Response
+} {
     const pathParts = url.pathname.split('/').filter(part => part !== '')
     if (pathParts.length < 3) {
         return {
-            err: new Response('Invalid path format. Expected: /{type}/{provider_url}/v1/messages', { status: 400 })
+            err: errors.errorResponse(
+                400,
+                'invalid_request_error',
+                'Invalid path format. Expected: /{type}/{provider_url}/v1/messages'
+            )
         }
     }
-    const lastTwoParts = pathParts.slice(-2)
-    if (lastTwoParts[0] !== 'v1' || lastTwoParts[1] !== 'messages') {
-        return { err: new Response('Path must end with /v1/messages', { status: 404 }) }
+    const suffix = ENDPOINT_SUFFIXES.find(({ parts }) => matchesSuffix(pathParts, parts))
+    if (!suffix) {
+        return {
+            err: errors.errorResponse(
+                404,
+                'not_found_error',
+                'Path must end with /v1/messages, /v1/messages/count_tokens or /v1/models'
+            )
+        }
+    }
+
+    const modelId = suffix.endpoint === 'model' ? decodeURIComponent(pathParts[pathParts.length - 1]) : undefined
+
+    // /r/{route}/v1/... names an upstream from the ROUTES table
+    if (pathParts[0] === 'r' && pathParts.length === suffix.parts.length + 2) {
+        return { routeName: decodeURIComponent(pathParts[1]), endpoint: suffix.endpoint, modelId }
     }
 
     const typeParam = pathParts[0]
-    const providerUrlParts = pathParts.slice(1, -2)
+    const providerUrlParts = pathParts.slice(1, -suffix.parts.length)
 
     // [..., 'https:', ...] ==> [..., 'https:/', ...]
     if (pathParts[1] && pathParts[1].startsWith('http')) {
@@ -83,27 +438,18 @@ function parsePath(url: URL): { typeParam?: string; baseUrl?: string; err?: Resp
 
     const baseUrl = providerUrlParts.join('/')
     if (!typeParam || !baseUrl) {
-        return { err: new Response('Missing type or provider_url in path', { status: 400 }) }
+        return { err: errors.errorResponse(400, 'invalid_request_error', 'Missing type or provider_url in path') }
     }
 
-    return { typeParam, baseUrl }
+    return { typeParam, baseUrl, endpoint: suffix.endpoint, modelId }
 }
 
-function getApiKey(headers: Headers): { apiKey?: string; mutatedHeaders?: Headers; err?: Response } {
+// The client's key is never forwarded as a header; auth.authenticate decides which key the provider gets
+function takeClientKey(headers: Headers): { clientKey?: string; mutatedHeaders: Headers } {
     const mutatedHeaders = new Headers(headers)
-    let apiKey = headers.get('x-api-key')
-    if (apiKey) {
-        mutatedHeaders.delete('x-api-key')
-    } else {
-        apiKey = mutatedHeaders.get('authorization')
-        if (apiKey) {
-            mutatedHeaders.delete('authorization')
-        }
-    }
-
-    if (!apiKey) {
-        return { err: new Response('Missing x-api-key or authorization header', { status: 401 }) }
-    }
-
-    return { apiKey, mutatedHeaders }
+    // Both are removed even though only one is used, so a proxy key sent alongside never reaches the upstream
+    mutatedHeaders.delete('x-api-key')
+    mutatedHeaders.delete('authorization')
+    const clientKey = headers.get('x-api-key') || headers.get('authorization')
+    return { clientKey: clientKey || undefined, mutatedHeaders }
 }
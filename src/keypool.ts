@@ -0,0 +1,126 @@
+import * as routes from './routes'
+
+const DEFAULT_COOLDOWN_SECONDS = 60
+// KV rejects shorter expirations
+const MIN_KV_TTL_SECONDS = 60
+const RESOURCE_EXHAUSTED = /RESOURCE_EXHAUSTED/
+const QUOTA = /quota/i
+
+// Per isolate, so rotation is only approximately even across Cloudflare's instances
+const nextIndex = new Map<string, number>()
+// Used when no KEY_STATE_KV namespace is bound; also saves a KV read for keys this isolate cooled down itself
+const localCooldowns = new Map<string, number>()
+
+// Orders a route's upstream keys for one request and remembers which ones ran out of quota. Cooldowns live in the
+// KEY_STATE_KV namespace when bound, keyed by a hash so raw keys never leave the worker.
+export class KeyPool {
+    constructor(
+        private env: Env,
+        private poolName: string,
+        private keys: routes.UpstreamKey[],
+        private selection: routes.Route['keySelection'] = 'round-robin',
+        private cooldownSeconds = DEFAULT_COOLDOWN_SECONDS
+    ) {}
+
+    // Every key, best first: keys still cooling down go last instead of being dropped, so a request is never
+    // refused just because all keys were recently exhausted
+    async candidates(): Promise<string[]> {
+        if (this.keys.length <= 1) {
+            return this.keys.map(({ key }) => key)
+        }
+
+        const ordered = this.selection === 'weighted' ? this.weightedOrder() : this.roundRobinOrder()
+        const cooldowns = await this.loadCooldowns()
+        const now = Date.now()
+        const hashes = await Promise.all(ordered.map(({ key }) => keyHash(key)))
+        const ready = ordered.filter((_, i) => !(cooldowns[hashes[i]] > now))
+        const cooling = ordered.filter((_, i) => cooldowns[hashes[i]] > now)
+        return [...ready, ...cooling].map(({ key }) => key)
+    }
+
+    async coolDown(key: string, retryAfterSeconds: number | undefined): Promise<void> {
+        const seconds = retryAfterSeconds ?? this.cooldownSeconds
+        const hash = await keyHash(key)
+        const until = Date.now() + seconds * 1000
+        localCooldowns.set(`${this.poolName}:${hash}`, until)
+        console.warn(`Upstream key ${hash} of ${this.poolName} exhausted, cooling down for ${seconds}s`)
+
+        const kv = this.env.KEY_STATE_KV
+        if (!kv) {
+            return
+        }
+        const cooldowns = await this.loadCooldowns()
+        cooldowns[hash] = until
+        const now = Date.now()
+        const active = Object.fromEntries(Object.entries(cooldowns).filter(([, expiry]) => expiry > now))
+        const ttl = Math.max(Math.ceil((Math.max(...Object.values(active)) - now) / 1000), MIN_KV_TTL_SECONDS)
+        await kv.put(this.kvKey(), JSON.stringify(active), { expirationTtl: ttl })
+    }
+
+    private roundRobinOrder(): routes.UpstreamKey[] {
+        const start = (nextIndex.get(this.poolName) || 0) % this.keys.length
+        nextIndex.set(this.poolName, start + 1)
+        return [...this.keys.slice(start), ...this.keys.slice(0, start)]
+    }
+
+    // Weighted random order without replacement (Efraimidis-Spirakis)
+    private weightedOrder(): routes.UpstreamKey[] {
+        return this.keys
+            .map(key => ({ key, rank: key.weight > 0 ? Math.random() ** (1 / key.weight) : -1 }))
+            .sort((a, b) => b.rank - a.rank)
+            .map(({ key }) => key)
+    }
+
+    private async loadCooldowns(): Promise<Record<string, number>> {
+        const cooldowns: Record<string, number> = {}
+        const prefix = `${this.poolName}:`
+        for (const [id, until] of localCooldowns) {
+            if (id.startsWith(prefix)) {
+                cooldowns[id.slice(prefix.length)] = until
+            }
+        }
+        const stored = await this.env.KEY_STATE_KV?.get<Record<string, number>>(this.kvKey(), 'json')
+        for (const [hash, until] of Object.entries(stored || {})) {
+            cooldowns[hash] = Math.max(cooldowns[hash] || 0, until)
+        }
+        return cooldowns
+    }
+
+    private kvKey(): string {
+        return `cooldowns:${this.poolName}`
+    }
+}
+
+// 429s always count. Other errors only when they say the quota ran out, since a 403 also covers bad keys and
+// requests that every other key would reject too.
+export async function isExhausted(response: Response): Promise<boolean> {
+    if (response.status === 429) {
+        return true
+    }
+    if (response.status < 400) {
+        return false
+    }
+    const body = await response.clone().text()
+    return RESOURCE_EXHAUSTED.test(body) || (response.status === 403 && QUOTA.test(body))
+}
+
+export function retryAfterSeconds(response: Response): number | undefined {
+    const header = response.headers.get('retry-after')
+    if (!header) {
+        return undefined
+    }
+    const seconds = Number(header)
+    if (Number.isFinite(seconds)) {
+        return Math.max(seconds, 1)
+    }
+    const date = Date.parse(header)
+    return Number.isNaN(date) ? undefined : Math.max(Math.ceil((date - Date.now()) / 1000), 1)
+}
+
+async function keyHash(key: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key))
+    return [...new Uint8Array(digest)]
+        .slice(0, 8)
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('')
+}
@@ -0,0 +1,61 @@
+import * as types from './types'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 1000
+// Anthropic requires created_at, but Gemini's catalog (and some OpenAI-compatible ones) has no creation dates.
+// Such models all carry this fixed value, which means "unknown", not a date the model was released.
+export const UNKNOWN_CREATED_AT = '1970-01-01T00:00:00Z'
+
+export function toClaudeModel(id: string, displayName?: string, createdUnixSeconds?: number): types.ClaudeModel {
+    return {
+        type: 'model',
+        id,
+        display_name: displayName || id,
+        created_at: createdUnixSeconds ? new Date(createdUnixSeconds * 1000).toISOString() : UNKNOWN_CREATED_AT
+    }
+}
+
+// Applies Anthropic's limit/after_id/before_id cursor semantics to a full upstream catalog
+export function paginateModels(models: types.ClaudeModel[], searchParams: URLSearchParams): types.ClaudeModelList {
+    const requestedLimit = Number(searchParams.get('limit') || DEFAULT_LIMIT)
+    const limit = Math.min(Math.max(Number.isFinite(requestedLimit) ? requestedLimit : DEFAULT_LIMIT, 1), MAX_LIMIT)
+    const afterId = searchParams.get('after_id')
+    const beforeId = searchParams.get('before_id')
+
+    let page: types.ClaudeModel[]
+    let hasMore: boolean
+    if (beforeId) {
+        const end = models.findIndex(model => model.id === beforeId)
+        const before = end === -1 ? [] : models.slice(0, end)
+        page = before.slice(-limit)
+        hasMore = before.length > limit
+    } else {
+        const start = afterId ? models.findIndex(model => model.id === afterId) + 1 : 0
+        const after = afterId && start === 0 ? [] : models.slice(start)
+        page = after.slice(0, limit)
+        hasMore = after.length > limit
+    }
+
+    return {
+        data: page,
+        has_more: hasMore,
+        first_id: page.length > 0 ? page[0].id : null,
+        last_id: page.length > 0 ? page[page.length - 1].id : null
+    }
+}
+
+export function modelListResponse(models: types.ClaudeModel[], searchParams: URLSearchParams): Response {
+    return jsonResponse(paginateModels(models, searchParams))
+}
+
+export function modelResponse(model: types.ClaudeModel): Response {
+    return jsonResponse(model)
+}
+
+function jsonResponse(body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+        headers: {
+            'Content-Type': 'application/json'
+        }
+    })
+}
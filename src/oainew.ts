@@ -1,11 +1,27 @@
 import * as types from './types'
 import * as provider from './provider'
 import * as utils from './utils'
+import * as errors from './errors'
+import * as models from './models'
+import * as schema from './schema'
+import * as config from './config'
 
 export class impl implements provider.Provider {
+    // 回显到 Claude 响应的 model 字段
+    private model = ''
+    // 实际发给上游的 stop，用于识别 vLLM/SGLang 回报的命中项
+    private stopSequences: string[] = []
+    warnings: string[] = []
+    reasoningTokens?: number
+
+    constructor(private context: provider.Context = provider.defaultContext) {}
+
     async convertToProviderRequest(request: Request, baseUrl: string, apiKey: string): Promise<Request> {
         const claudeRequest = (await request.json()) as types.ClaudeRequest
+        this.model = claudeRequest.model
+        claudeRequest.model = config.resolveModelAlias(claudeRequest.model, this.context.aliases)
         const openaiRequest = this.convertToOpenAIRequestBody(claudeRequest)
+        this.stopSequences = openaiRequest.stop || []
 
         // Use Chat Completions (reverted as requested)
         const finalUrl = utils.buildUrl(baseUrl, 'chat/completions')
@@ -23,7 +39,7 @@ export class impl implements provider.Provider {
 
     async convertToClaudeResponse(openaiResponse: Response): Promise<Response> {
         if (!openaiResponse.ok) {
-            return openaiResponse
+            return errors.convertUpstreamError(openaiResponse)
         }
 
         const contentType = openaiResponse.headers.get('content-type') || ''
@@ -36,6 +52,53 @@ export class impl implements provider.Provider {
         }
     }
 
+    // Chat Completions 没有计数接口，使用本地估算
+    async countTokens(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        const claudeRequest = (await request.json()) as types.ClaudeRequest
+        return utils.countTokensResponse(utils.estimateInputTokens(claudeRequest))
+    }
+
+    async listModels(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        const openaiResponse = await this.context.fetch(utils.buildUrl(baseUrl, 'models'), {
+            headers: { Authorization: `Bearer ${apiKey}` }
+        })
+        if (!openaiResponse.ok) {
+            return errors.convertUpstreamError(openaiResponse)
+        }
+
+        const openaiData = (await openaiResponse.json()) as types.OpenAIModelList
+        // Anthropic 按创建时间倒序列出模型
+        const claudeModels = (openaiData.data || [])
+            .map(model => models.toClaudeModel(model.id, model.id, model.created))
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        return models.modelListResponse(claudeModels, new URL(request.url).searchParams)
+    }
+
+    async retrieveModel(request: Request, baseUrl: string, apiKey: string, modelId: string): Promise<Response> {
+        const url = utils.buildUrl(baseUrl, `models/${encodeURIComponent(modelId)}`)
+        const openaiResponse = await this.context.fetch(url, { headers: { Authorization: `Bearer ${apiKey}` } })
+        if (!openaiResponse.ok) {
+            return errors.convertUpstreamError(openaiResponse)
+        }
+
+        const model = (await openaiResponse.json()) as types.OpenAIModel
+        return models.modelResponse(models.toClaudeModel(model.id, model.id, model.created))
+    }
+
+    // Claude 的 any/tool/none 分别对应 OpenAI 的 required/指定函数/none
+    private convertToolChoice(toolChoice?: types.ClaudeToolChoice): types.OpenAIRequest['tool_choice'] {
+        switch (toolChoice?.type) {
+            case 'any':
+                return 'required'
+            case 'tool':
+                return { type: 'function', function: { name: toolChoice.name } }
+            case 'none':
+                return 'none'
+            default:
+                return 'auto'
+        }
+    }
+
     // 兼容各种来源的 role 值（如 'tools'、'system' 等）
     private normalizeClaudeRole(role: any): 'system' | 'user' | 'assistant' | 'tool' {
         const r = String(role ?? '').toLowerCase()
@@ -47,7 +110,7 @@ export class impl implements provider.Provider {
 
     private convertToOpenAIRequestBody(claudeRequest: types.ClaudeRequest): types.OpenAIRequest {
         const convertedMessages = this.convertMessages(claudeRequest.messages)
-        const systemText = this.extractSystemText((claudeRequest as any).system)
+        const systemText = utils.extractSystemText(claudeRequest.system)
         const messages: types.OpenAIMessage[] = systemText
             ? [{ role: 'system', content: systemText }, ...convertedMessages]
             : convertedMessages
@@ -58,16 +121,24 @@ export class impl implements provider.Provider {
             stream: claudeRequest.stream
         }
 
+        if (claudeRequest.stream) {
+            // 让上游在最后一个 chunk 中返回 usage
+            openaiRequest.stream_options = { include_usage: true }
+        }
+
         if (claudeRequest.tools && claudeRequest.tools.length > 0) {
             openaiRequest.tools = claudeRequest.tools.map(tool => ({
                 type: 'function',
                 function: {
                     name: tool.name,
                     description: tool.description,
-                    parameters: utils.cleanJsonSchema(tool.input_schema)
+                    parameters: schema.toolParameters(tool, 'openai', this.warnings)
                 }
             }))
-            openaiRequest.tool_choice = "auto"
+            openaiRequest.tool_choice = this.convertToolChoice(claudeRequest.tool_choice)
+            if (claudeRequest.tool_choice?.type !== 'none' && claudeRequest.tool_choice?.disable_parallel_tool_use) {
+                openaiRequest.parallel_tool_calls = false
+            }
 
            
         }
@@ -76,28 +147,33 @@ export class impl implements provider.Provider {
             openaiRequest.temperature = claudeRequest.temperature
         }
 
+        if (claudeRequest.thinking?.type === 'enabled') {
+            openaiRequest.reasoning_effort = utils.thinkingBudgetToEffort(claudeRequest.thinking.budget_tokens)
+        }
+
         if (claudeRequest.max_tokens !== undefined) {
             // Only use max_completion_tokens for oainew path
             openaiRequest.max_completion_tokens = claudeRequest.max_tokens
         }
 
-        return openaiRequest
-    }
+        if (claudeRequest.top_p !== undefined) {
+            openaiRequest.top_p = claudeRequest.top_p
+        }
 
-    // 支持 Claude 顶层 system 为 string 或 content[]（含 {type:'text'} 块）
-    private extractSystemText(systemField: any): string | undefined {
-        if (!systemField) return undefined
-        if (typeof systemField === 'string') return systemField
-        // 可能是单个对象或数组
-        const arr = Array.isArray(systemField) ? systemField : [systemField]
-        const parts: string[] = []
-        for (const item of arr) {
-            if (item && typeof item === 'object' && item.type === 'text' && typeof item.text === 'string') {
-                parts.push(item.text)
-            }
+        if (claudeRequest.top_k !== undefined) {
+            this.warnings.push('top_k dropped (not supported by OpenAI)')
         }
-        if (parts.length === 0) return undefined
-        return parts.join('\n')
+
+        const stop = utils.clampStopSequences(claudeRequest.stop_sequences, 4, this.warnings)
+        if (stop.length > 0) {
+            openaiRequest.stop = stop
+        }
+
+        if (claudeRequest.metadata?.user_id) {
+            openaiRequest.user = claudeRequest.metadata.user_id
+        }
+
+        return openaiRequest
     }
 
     private convertMessages(claudeMessages: types.ClaudeMessage[]): types.OpenAIMessage[] {
@@ -117,14 +193,20 @@ export class impl implements provider.Provider {
                 continue
             }
 
-            const textContents: string[] = []
+            const contentParts: types.OpenAIContentPart[] = []
             const toolCalls: types.OpenAIToolCall[] = []
             const toolResults: Array<{ tool_call_id: string; content: string }> = []
 
             for (const content of message.content) {
                 switch (content.type) {
                     case 'text':
-                        textContents.push(content.text)
+                        contentParts.push({ type: 'text', text: content.text })
+                        break
+                    case 'image':
+                        contentParts.push({
+                            type: 'image_url',
+                            image_url: { url: utils.imageSourceToUrl(content.source) }
+                        })
                         break
                     case 'tool_use':
                         toolCallMap.set(content.id, content.id)
@@ -140,8 +222,7 @@ export class impl implements provider.Provider {
                     case 'tool_result':
                         toolResults.push({
                             tool_call_id: content.tool_use_id,
-                            content:
-                                typeof content.content === 'string' ? content.content : JSON.stringify(content.content)
+                            content: this.convertToolResultContent(content.content, contentParts)
                         })
                         break
                 }
@@ -156,10 +237,10 @@ export class impl implements provider.Provider {
                 })
             }
 
-            if ((textContents.length > 0 || toolCalls.length > 0) && normalizedRole !== 'tool') {
+            if ((contentParts.length > 0 || toolCalls.length > 0) && normalizedRole !== 'tool') {
                 const openaiMessage: types.OpenAIMessage = {
                     role: normalizedRole === 'assistant' ? 'assistant' : normalizedRole === 'system' ? 'system' : 'user',
-                    content: textContents.length > 0 ? textContents.join('\n') : null
+                    content: this.joinContentParts(contentParts)
                 }
 
                 if (toolCalls.length > 0) {
@@ -173,6 +254,32 @@ export class impl implements provider.Provider {
         return openaiMessages
     }
 
+    // tool 消息只能携带文本：图片移到紧随其后的 user 消息中
+    private convertToolResultContent(
+        content: types.ClaudeToolResultContent,
+        imageParts: types.OpenAIContentPart[]
+    ): string {
+        if (typeof content === 'string') return content
+        const texts: string[] = []
+        for (const item of content) {
+            if (item.type === 'text') {
+                texts.push(item.text)
+            } else if (item.type === 'image') {
+                imageParts.push({ type: 'image_url', image_url: { url: utils.imageSourceToUrl(item.source) } })
+            }
+        }
+        return texts.join('\n')
+    }
+
+    // 纯文本时保持字符串形式，兼容不支持多段 content 的中转
+    private joinContentParts(parts: types.OpenAIContentPart[]): string | types.OpenAIContentPart[] | null {
+        if (parts.length === 0) return null
+        if (parts.every(part => part.type === 'text')) {
+            return parts.map(part => (part.type === 'text' ? part.text : '')).join('\n')
+        }
+        return parts
+    }
+
     private async convertNormalResponse(openaiResponse: Response): Promise<Response> {
         const openaiData = (await openaiResponse.json()) as types.OpenAIResponse
 
@@ -180,14 +287,26 @@ export class impl implements provider.Provider {
             id: utils.generateId(),
             type: 'message',
             role: 'assistant',
-            content: []
+            model: this.model,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { input_tokens: 0, output_tokens: 0 }
         }
 
         if (openaiData.choices && openaiData.choices.length > 0) {
             const choice = openaiData.choices[0]
             const message = choice.message
 
-            if (message.content) {
+            if (message.reasoning_content) {
+                claudeResponse.content.push({
+                    type: 'thinking',
+                    thinking: message.reasoning_content,
+                    signature: ''
+                })
+            }
+
+            if (typeof message.content === 'string' && message.content) {
                 claudeResponse.content.push({
                     type: 'text',
                     text: message.content
@@ -204,18 +323,18 @@ export class impl implements provider.Provider {
                     })
                 }
                 claudeResponse.stop_reason = 'tool_use'
-            } else if (choice.finish_reason === 'length') {
-                claudeResponse.stop_reason = 'max_tokens'
             } else {
-                claudeResponse.stop_reason = 'end_turn'
+                const stopSequence = utils.openAIMatchedStopSequence(choice, this.stopSequences)
+                claudeResponse.stop_reason = stopSequence
+                    ? 'stop_sequence'
+                    : utils.openAIFinishReasonToStopReason(choice.finish_reason)
+                claudeResponse.stop_sequence = stopSequence || null
             }
         }
 
         if (openaiData.usage) {
-            claudeResponse.usage = {
-                input_tokens: openaiData.usage.prompt_tokens,
-                output_tokens: openaiData.usage.completion_tokens
-            }
+            claudeResponse.usage = utils.openAIUsageToClaudeUsage(openaiData.usage)
+            this.reasoningTokens = openaiData.usage.completion_tokens_details?.reasoning_tokens
         }
 
         return new Response(JSON.stringify(claudeResponse), {
@@ -227,90 +346,46 @@ export class impl implements provider.Provider {
     }
 
     private async convertStreamResponse(openaiResponse: Response): Promise<Response> {
-        // 用于累积工具调用数据
-        const toolCallAccumulator = new Map<number, { id?: string; name?: string; arguments?: string }>()
-        // 仅在确认 OpenAI 本轮以 tool_calls 结束时，向下游发送一次 stop_reason=tool_use
-        let toolUseStopEmitted = false
-        
-        return utils.processProviderStream(openaiResponse, (jsonStr, textBlockIndex, toolUseBlockIndex) => {
-            const openaiData = JSON.parse(jsonStr) as types.OpenAIStreamResponse
+        // 工具调用在拿到 name 后立即开启 tool_use 块，arguments 片段逐个作为 input_json_delta 转发
+        const toolCalls = new utils.OpenAIToolCallStream()
+
+        return utils.processProviderStream(openaiResponse, this.model, (data, emitter) => {
+            const openaiData = data as types.OpenAIStreamResponse
+            if (openaiData.usage) {
+                emitter.setUsage(utils.openAIUsageToClaudeUsage(openaiData.usage))
+                this.reasoningTokens = openaiData.usage.completion_tokens_details?.reasoning_tokens
+            }
             if (!openaiData.choices || openaiData.choices.length === 0) {
-                return null
+                return
             }
 
             const choice = openaiData.choices[0]
             const delta = choice.delta
-            const events: string[] = []
-            let currentTextIndex = textBlockIndex
-            let currentToolIndex = toolUseBlockIndex
+
+            if (delta.reasoning_content) {
+                emitter.thinking(delta.reasoning_content)
+            }
 
             if (delta.content) {
-                events.push(...utils.processTextPart(delta.content, currentTextIndex))
-                currentTextIndex++
+                emitter.text(delta.content)
             }
 
             if (delta.tool_calls) {
                 for (const toolCall of delta.tool_calls) {
-                    const toolIndex = toolCall.index ?? 0
-                    
-                    // 获取或创建工具调用累积器
-                    if (!toolCallAccumulator.has(toolIndex)) {
-                        toolCallAccumulator.set(toolIndex, {})
-                    }
-                    const accumulated = toolCallAccumulator.get(toolIndex)!
-                    
-                    // 累积数据
-                    if (toolCall.id) {
-                        accumulated.id = toolCall.id
-                    }
-                    if (toolCall.function?.name) {
-                        accumulated.name = toolCall.function.name
-                    }
-                    if (toolCall.function?.arguments) {
-                        accumulated.arguments = (accumulated.arguments || '') + toolCall.function.arguments
-                    }
-                    
-                    // 检查是否收集完整（包含 id/name/args），并且arguments是有效JSON
-                    if (accumulated.id && accumulated.name && accumulated.arguments) {
-                        try {
-                            const args = JSON.parse(accumulated.arguments)
-                            events.push(
-                                ...utils.processToolUsePart(
-                                    {
-                                        id: accumulated.id,
-                                        name: accumulated.name,
-                                        args: args
-                                    },
-                                    currentToolIndex
-                                )
-                            )
-                            currentToolIndex++
-                            // 清除已处理的工具调用
-                            toolCallAccumulator.delete(toolIndex)
-                        } catch (e) {
-                            // JSON还不完整，继续累积
-                        }
-                    }
+                    toolCalls.push(emitter, toolCall)
                 }
             }
 
-            // 仅当 OpenAI 明确以 tool_calls 结束时，再发送一次 stop_reason=tool_use，避免并行多工具时提前结束
-            if (!toolUseStopEmitted && (choice.finish_reason === 'tool_calls' || choice.finish_reason === 'function_call')) {
-                events.push(
-                    `event: message_delta\n` +
-                        `data: ${JSON.stringify({
-                            type: 'message_delta',
-                            delta: { stop_reason: 'tool_use' }
-                        })}\n\n`
-                )
-                toolUseStopEmitted = true
-            }
-
-            return {
-                events,
-                textBlockIndex: currentTextIndex,
-                toolUseBlockIndex: currentToolIndex
+            // stop_reason 在流结束时随 message_delta 统一发送，避免并行多工具时提前结束
+            if (choice.finish_reason) {
+                toolCalls.finish(emitter)
+                const stopSequence = utils.openAIMatchedStopSequence(choice, this.stopSequences)
+                if (stopSequence) {
+                    emitter.setStopReason('stop_sequence', stopSequence)
+                } else {
+                    emitter.setStopReason(utils.openAIFinishReasonToStopReason(choice.finish_reason))
+                }
             }
-        })
+        }, emitter => toolCalls.finish(emitter))
     }
 }
@@ -1,4 +1,27 @@
+import * as config from './config'
+import * as upstream from './upstream'
+
+// What the route gives every provider besides the base URL and key
+export interface Context {
+    // Tried in order on the requested model, see config.loadModelAliases
+    aliases: config.ModelAliases
+    // Used for every upstream call so redirects get the same host checks as the base URL
+    fetch: upstream.Fetch
+}
+
+export const defaultContext: Context = { aliases: [], fetch: (input, init) => fetch(input, init) }
+
 export interface Provider {
+    // Parameters dropped or clamped while converting the request; sent back as x-claude-proxy-warning
+    warnings: string[]
+    // Output tokens the upstream reports spending on reasoning. The Anthropic API has no such field, so it is only
+    // recorded by usage metering and never sent to the client.
+    reasoningTokens?: number
     convertToProviderRequest(request: Request, baseUrl: string, apiKey: string): Promise<Request>
     convertToClaudeResponse(providerResponse: Response): Promise<Response>
+    // Answers /v1/messages/count_tokens with {input_tokens}
+    countTokens(request: Request, baseUrl: string, apiKey: string): Promise<Response>
+    // Answer GET /v1/models and /v1/models/{id} from the upstream catalog
+    listModels(request: Request, baseUrl: string, apiKey: string): Promise<Response>
+    retrieveModel(request: Request, baseUrl: string, apiKey: string, modelId: string): Promise<Response>
 }
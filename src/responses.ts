@@ -0,0 +1,400 @@
+import * as types from './types'
+import * as provider from './provider'
+import * as utils from './utils'
+import * as errors from './errors'
+import * as oainew from './oainew'
+import * as schema from './schema'
+import * as config from './config'
+
+// Reasoning items have to be replayed with their id and encrypted content on the next turn.
+// Both ride along in the Claude thinking block's signature, which clients send back untouched.
+const REASONING_SIGNATURE_PREFIX = 'oairs:'
+
+export class impl implements provider.Provider {
+    // Echoed back in the Claude response's model field
+    private model = ''
+    warnings: string[] = []
+    reasoningTokens?: number
+
+    constructor(
+        private context: provider.Context = provider.defaultContext,
+        // Sends tools with strict: true, translated to the structured-outputs subset of JSON Schema
+        private strictTools = false
+    ) {}
+
+    async convertToProviderRequest(request: Request, baseUrl: string, apiKey: string): Promise<Request> {
+        const claudeRequest = (await request.json()) as types.ClaudeRequest
+        this.model = claudeRequest.model
+        claudeRequest.model = config.resolveModelAlias(claudeRequest.model, this.context.aliases)
+        const responsesRequest = this.convertToResponsesRequestBody(claudeRequest)
+
+        const finalUrl = utils.buildUrl(baseUrl, 'responses')
+
+        const headers = new Headers(request.headers)
+        headers.set('Authorization', `Bearer ${apiKey}`)
+        headers.set('Content-Type', 'application/json')
+
+        return new Request(finalUrl, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(responsesRequest)
+        })
+    }
+
+    async convertToClaudeResponse(responsesResponse: Response): Promise<Response> {
+        if (!responsesResponse.ok) {
+            return errors.convertUpstreamError(responsesResponse)
+        }
+
+        const contentType = responsesResponse.headers.get('content-type') || ''
+        const isStream = contentType.includes('text/event-stream')
+
+        if (isStream) {
+            return this.convertStreamResponse(responsesResponse)
+        } else {
+            return this.convertNormalResponse(responsesResponse)
+        }
+    }
+
+    // The Responses API has no counting endpoint either, and the catalog is the regular OpenAI one
+    async countTokens(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        return new oainew.impl(this.context).countTokens(request, baseUrl, apiKey)
+    }
+
+    async listModels(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        return new oainew.impl(this.context).listModels(request, baseUrl, apiKey)
+    }
+
+    async retrieveModel(request: Request, baseUrl: string, apiKey: string, modelId: string): Promise<Response> {
+        return new oainew.impl(this.context).retrieveModel(request, baseUrl, apiKey, modelId)
+    }
+
+    private convertToResponsesRequestBody(claudeRequest: types.ClaudeRequest): types.OpenAIResponsesRequest {
+        const responsesRequest: types.OpenAIResponsesRequest = {
+            model: claudeRequest.model,
+            input: this.convertMessages(claudeRequest.messages),
+            stream: claudeRequest.stream,
+            // Stateless: every turn resends the full history, so nothing needs to live on OpenAI's side
+            store: false
+        }
+
+        const instructions = utils.extractSystemText(claudeRequest.system)
+        if (instructions) {
+            responsesRequest.instructions = instructions
+        }
+
+        if (claudeRequest.tools && claudeRequest.tools.length > 0) {
+            responsesRequest.tools = claudeRequest.tools.map(tool => ({
+                type: 'function',
+                name: tool.name,
+                description: tool.description,
+                parameters: schema.toolParameters(tool, this.strictTools ? 'openai-strict' : 'openai', this.warnings),
+                // The Responses API defaults to strict, which would reject ordinary optional parameters
+                strict: this.strictTools
+            }))
+            responsesRequest.tool_choice = this.convertToolChoice(claudeRequest.tool_choice)
+            if (claudeRequest.tool_choice?.type !== 'none' && claudeRequest.tool_choice?.disable_parallel_tool_use) {
+                responsesRequest.parallel_tool_calls = false
+            }
+        }
+
+        if (claudeRequest.temperature !== undefined) {
+            responsesRequest.temperature = claudeRequest.temperature
+        }
+
+        if (claudeRequest.thinking?.type === 'enabled') {
+            responsesRequest.reasoning = {
+                effort: utils.thinkingBudgetToEffort(claudeRequest.thinking.budget_tokens),
+                summary: 'auto'
+            }
+            responsesRequest.include = ['reasoning.encrypted_content']
+        }
+
+        if (claudeRequest.max_tokens !== undefined) {
+            responsesRequest.max_output_tokens = claudeRequest.max_tokens
+        }
+
+        if (claudeRequest.top_p !== undefined) {
+            responsesRequest.top_p = claudeRequest.top_p
+        }
+
+        if (claudeRequest.top_k !== undefined) {
+            this.warnings.push('top_k dropped (not supported by the Responses API)')
+        }
+
+        if (claudeRequest.stop_sequences && claudeRequest.stop_sequences.length > 0) {
+            this.warnings.push('stop_sequences dropped (not supported by the Responses API)')
+        }
+
+        if (claudeRequest.metadata?.user_id) {
+            responsesRequest.user = claudeRequest.metadata.user_id
+        }
+
+        return responsesRequest
+    }
+
+    private convertToolChoice(toolChoice?: types.ClaudeToolChoice): types.OpenAIResponsesRequest['tool_choice'] {
+        switch (toolChoice?.type) {
+            case 'any':
+                return 'required'
+            case 'tool':
+                return { type: 'function', name: toolChoice.name }
+            case 'none':
+                return 'none'
+            default:
+                return 'auto'
+        }
+    }
+
+    // Claude messages hold ordered blocks, while Responses input is a flat item list:
+    // text/image blocks are grouped into message items, everything else becomes its own item
+    private convertMessages(claudeMessages: types.ClaudeMessage[]): types.OpenAIResponsesItem[] {
+        const items: types.OpenAIResponsesItem[] = []
+
+        for (const message of claudeMessages) {
+            const role = message.role === 'assistant' ? 'assistant' : 'user'
+            if (typeof message.content === 'string') {
+                items.push({ type: 'message', role, content: message.content })
+                continue
+            }
+
+            let contentParts: types.OpenAIResponsesContent[] = []
+            const flushMessage = () => {
+                if (contentParts.length > 0) {
+                    items.push({ type: 'message', role, content: contentParts })
+                    contentParts = []
+                }
+            }
+            // Images returned by tools can't go into function_call_output, so they follow as user input
+            const toolResultImages: types.OpenAIResponsesContent[] = []
+
+            for (const content of message.content) {
+                switch (content.type) {
+                    case 'text':
+                        contentParts.push(
+                            role === 'assistant'
+                                ? { type: 'output_text', text: content.text }
+                                : { type: 'input_text', text: content.text }
+                        )
+                        break
+                    case 'image':
+                        contentParts.push({ type: 'input_image', image_url: utils.imageSourceToUrl(content.source) })
+                        break
+                    case 'thinking': {
+                        const reasoning = this.decodeReasoningSignature(content.signature)
+                        if (reasoning) {
+                            flushMessage()
+                            items.push({
+                                type: 'reasoning',
+                                id: reasoning.id,
+                                summary: content.thinking ? [{ type: 'summary_text', text: content.thinking }] : [],
+                                encrypted_content: reasoning.encryptedContent
+                            })
+                        }
+                        break
+                    }
+                    case 'tool_use':
+                        flushMessage()
+                        items.push({
+                            type: 'function_call',
+                            call_id: content.id,
+                            name: content.name,
+                            arguments: JSON.stringify(content.input)
+                        })
+                        break
+                    case 'tool_result':
+                        flushMessage()
+                        items.push({
+                            type: 'function_call_output',
+                            call_id: content.tool_use_id,
+                            output: this.convertToolResultContent(content.content, toolResultImages)
+                        })
+                        break
+                }
+            }
+
+            flushMessage()
+            if (toolResultImages.length > 0) {
+                items.push({ type: 'message', role: 'user', content: toolResultImages })
+            }
+        }
+
+        return items
+    }
+
+    private convertToolResultContent(
+        content: types.ClaudeToolResultContent,
+        imageParts: types.OpenAIResponsesContent[]
+    ): string {
+        if (typeof content === 'string') return content
+        const texts: string[] = []
+        for (const item of content) {
+            if (item.type === 'text') {
+                texts.push(item.text)
+            } else if (item.type === 'image') {
+                imageParts.push({ type: 'input_image', image_url: utils.imageSourceToUrl(item.source) })
+            }
+        }
+        return texts.join('\n')
+    }
+
+    private encodeReasoningSignature(item: { id: string; encrypted_content?: string | null }): string {
+        if (!item.encrypted_content) return ''
+        return `${REASONING_SIGNATURE_PREFIX}${item.id}:${item.encrypted_content}`
+    }
+
+    private decodeReasoningSignature(signature?: string): { id: string; encryptedContent: string } | undefined {
+        if (!signature || !signature.startsWith(REASONING_SIGNATURE_PREFIX)) return undefined
+        const payload = signature.slice(REASONING_SIGNATURE_PREFIX.length)
+        const separator = payload.indexOf(':')
+        if (separator <= 0) return undefined
+        return { id: payload.slice(0, separator), encryptedContent: payload.slice(separator + 1) }
+    }
+
+    private convertUsage(usage: types.OpenAIResponsesUsage): types.ClaudeUsage {
+        const cached = usage.input_tokens_details?.cached_tokens || 0
+        this.reasoningTokens = usage.output_tokens_details?.reasoning_tokens
+        return {
+            input_tokens: usage.input_tokens - cached,
+            output_tokens: usage.output_tokens,
+            cache_read_input_tokens: cached
+        }
+    }
+
+    private convertStopReason(response: types.OpenAIResponsesOutput): types.ClaudeStopReason {
+        if (response.status === 'incomplete' && response.incomplete_details?.reason === 'max_output_tokens') {
+            return 'max_tokens'
+        }
+        return 'end_turn'
+    }
+
+    private async convertNormalResponse(responsesResponse: Response): Promise<Response> {
+        const responsesData = (await responsesResponse.json()) as types.OpenAIResponsesOutput
+        if (responsesData.status === 'failed') {
+            return errors.errorResponse(500, 'api_error', responsesData.error?.message || 'Upstream response failed')
+        }
+
+        const claudeResponse: types.ClaudeResponse = {
+            id: utils.generateId(),
+            type: 'message',
+            role: 'assistant',
+            model: this.model,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { input_tokens: 0, output_tokens: 0 }
+        }
+
+        let hasToolUse = false
+        for (const item of responsesData.output || []) {
+            switch (item.type) {
+                case 'reasoning':
+                    claudeResponse.content.push({
+                        type: 'thinking',
+                        thinking: item.summary.map(part => part.text).join('\n\n'),
+                        signature: this.encodeReasoningSignature(item)
+                    })
+                    break
+                case 'message':
+                    for (const part of item.content) {
+                        if (part.type === 'output_text' && part.text) {
+                            claudeResponse.content.push({ type: 'text', text: part.text })
+                        } else if (part.type === 'refusal') {
+                            claudeResponse.content.push({ type: 'text', text: part.refusal })
+                        }
+                    }
+                    break
+                case 'function_call':
+                    hasToolUse = true
+                    claudeResponse.content.push({
+                        type: 'tool_use',
+                        id: item.call_id,
+                        name: item.name,
+                        input: item.arguments ? JSON.parse(item.arguments) : {}
+                    })
+                    break
+            }
+        }
+
+        claudeResponse.stop_reason = hasToolUse ? 'tool_use' : this.convertStopReason(responsesData)
+
+        if (responsesData.usage) {
+            claudeResponse.usage = this.convertUsage(responsesData.usage)
+        }
+
+        return new Response(JSON.stringify(claudeResponse), {
+            status: responsesResponse.status,
+            headers: {
+                'Content-Type': 'application/json'
+            }
+        })
+    }
+
+    private async convertStreamResponse(responsesResponse: Response): Promise<Response> {
+        // output_index of the function_call whose tool_use block is currently open
+        let openToolOutputIndex: number | undefined
+        let toolArgumentsStreamed = false
+
+        return utils.processProviderStream(responsesResponse, this.model, (data, emitter) => {
+            const event = data as types.OpenAIResponsesStreamEvent
+
+            switch (event.type) {
+                case 'response.output_text.delta':
+                // Kept as text, like the non-streaming path does
+                case 'response.refusal.delta':
+                    emitter.text(event.delta)
+                    break
+                case 'response.reasoning_summary_part.added':
+                    // Separate summary paragraphs the way the non-streaming path joins them
+                    if (event.summary_index > 0) {
+                        emitter.thinking('\n\n')
+                    }
+                    break
+                case 'response.reasoning_summary_text.delta':
+                    emitter.thinking(event.delta)
+                    break
+                case 'response.output_item.added':
+                    if (event.item.type === 'function_call') {
+                        emitter.startToolUse(event.item.call_id, event.item.name)
+                        openToolOutputIndex = event.output_index
+                        toolArgumentsStreamed = !!event.item.arguments
+                        emitter.toolInputDelta(event.item.arguments)
+                    }
+                    break
+                case 'response.function_call_arguments.delta':
+                    if (event.output_index === openToolOutputIndex) {
+                        toolArgumentsStreamed = true
+                        emitter.toolInputDelta(event.delta)
+                    }
+                    break
+                case 'response.output_item.done':
+                    if (event.item.type === 'function_call' && event.output_index === openToolOutputIndex) {
+                        if (!toolArgumentsStreamed) {
+                            emitter.toolInputDelta(event.item.arguments)
+                        }
+                        emitter.closeBlock()
+                        openToolOutputIndex = undefined
+                    } else if (event.item.type === 'reasoning' && event.item.encrypted_content) {
+                        emitter.thinking('', this.encodeReasoningSignature(event.item))
+                        emitter.closeBlock()
+                    }
+                    break
+                case 'response.completed':
+                case 'response.incomplete':
+                    if (event.response.usage) {
+                        emitter.setUsage(this.convertUsage(event.response.usage))
+                    }
+                    emitter.setStopReason(this.convertStopReason(event.response))
+                    break
+                case 'response.failed':
+                    emitter.fail('api_error', event.response.error?.message || 'Upstream response failed')
+                    break
+                case 'error': {
+                    const parsed = errors.parseUpstreamError({ error: { code: event.code, message: event.message } })
+                    emitter.fail(parsed.type || 'api_error', event.message)
+                    break
+                }
+            }
+        })
+    }
+}
@@ -0,0 +1,102 @@
+import * as config from './config'
+import * as errors from './errors'
+import * as claude from './claude'
+import * as sse from './sse'
+
+// A named upstream from ROUTES (or the 'routes' key of CONFIG_KV), served at /r/{name}/v1/...:
+//   { "gemini": { "type": "gemini", "baseUrl": "https://generativelanguage.googleapis.com/v1beta",
+//                 "apiKeySecret": "GEMINI_API_KEY", "modelAliases": { "claude-3-5-haiku-*": "gemini-2.5-flash" } } }
+export interface Route {
+    // Provider type, as in the /{type}/... path form
+    type: string
+    baseUrl: string
+    // Upstream key stored inline or, preferably, the name of a secret holding it. Without either the client's
+    // own x-api-key/authorization is forwarded, like the URL form does.
+    apiKey?: string
+    apiKeySecret?: string
+    // Several upstream keys to spread load over, used instead of apiKey/apiKeySecret. A key answering 429 or a
+    // quota error cools down and the request is retried on the next one.
+    keyPool?: PooledKey[]
+    // 'round-robin' (default) or 'weighted' by PooledKey.weight
+    keySelection?: 'round-robin' | 'weighted'
+    // How long an exhausted key is skipped when the upstream sends no Retry-After (default 60)
+    keyCooldownSeconds?: number
+    // Extra attempts on 5xx, 408, 429 or network errors, with exponential backoff honoring Retry-After (default 0)
+    retries?: number
+    // Override UPSTREAM_CONNECT_TIMEOUT_MS / UPSTREAM_FIRST_BYTE_TIMEOUT_MS for this route
+    connectTimeoutMs?: number
+    firstByteTimeoutMs?: number
+    // 'force-stream' or 'force-nonstream' for upstreams that only handle one mode; the reply is converted back to
+    // what the client asked for (default 'auto' forwards the client's choice)
+    upstreamMode?: sse.UpstreamMode
+    // Backends tried in order once this one has used up its retries
+    fallback?: FallbackStep[]
+    // Bring your own key: skip CLIENT_KEYS and always forward the client's key upstream
+    byok?: boolean
+    // Lets anyone use the route's own upstream keys while CLIENT_KEYS is unset; otherwise such a route refuses
+    // every request until proxy keys are configured
+    public?: boolean
+    // {pattern: model}, tried before MODEL_ALIASES
+    modelAliases?: Record<string, string>
+    // Added to the headers forwarded upstream, e.g. an OpenRouter 'HTTP-Referer'
+    headers?: Record<string, string>
+    // 'responses' type only: send tools in strict mode. Optional parameters become required but nullable, so the
+    // model sends null where it would have left them out.
+    strictTools?: boolean
+    // 'claude' type only: overrides the matching CLAUDE_* variables, e.g. { "stripFields": ["cache_control"] }
+    claude?: Partial<claude.Options>
+}
+
+export interface PooledKey {
+    key?: string
+    secret?: string
+    // Share of traffic with 'weighted' selection (default 1)
+    weight?: number
+}
+
+// Another route and/or a fixed upstream model, e.g. { "model": "gemini-2.5-flash" } on the same route or
+// { "route": "openai", "model": "gpt-4.1" }. The step's route uses its own keys, headers and retries.
+export interface FallbackStep {
+    route?: string
+    model?: string
+}
+
+// An upstream key ready to use, with its selection weight
+export interface UpstreamKey {
+    key: string
+    weight: number
+}
+
+export async function loadRoute(env: Env, name: string): Promise<Route> {
+    const route = (await config.loadJsonSetting(env, 'ROUTES'))[name] as Route | undefined
+    if (!route || typeof route !== 'object') {
+        throw new errors.ProxyError(404, 'not_found_error', `Unknown route: ${name}`)
+    }
+    if (typeof route.type !== 'string' || typeof route.baseUrl !== 'string') {
+        throw new errors.ProxyError(500, 'api_error', `Route ${name} needs a type and a baseUrl`)
+    }
+    return route
+}
+
+export function urlRoutesAllowed(env: Env): boolean {
+    return env.ALLOW_URL_ROUTES?.toLowerCase() !== 'false'
+}
+
+export function upstreamKeys(env: Env, route: Route): UpstreamKey[] {
+    if (route.keyPool && route.keyPool.length > 0) {
+        return route.keyPool.map(entry => {
+            const key = entry.secret ? config.readSecret(env, entry.secret) : entry.key
+            if (!key) {
+                throw new errors.ProxyError(500, 'api_error', 'keyPool entries need a key or a secret')
+            }
+            return { key, weight: entry.weight ?? 1 }
+        })
+    }
+    const key = route.apiKeySecret ? config.readSecret(env, route.apiKeySecret) : route.apiKey
+    return key ? [{ key, weight: 1 }] : []
+}
+
+export async function modelAliases(env: Env, route: Route): Promise<config.ModelAliases> {
+    const routeAliases = route.modelAliases ? config.parseModelAliases(route.modelAliases) : []
+    return [...routeAliases, ...(await config.loadModelAliases(env, route.type))]
+}
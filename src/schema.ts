@@ -0,0 +1,600 @@
+import * as types from './types'
+
+// gemini: the OpenAPI 3.0 subset accepted in functionDeclarations.parameters
+// openai: plain JSON Schema, as accepted by Chat Completions / Responses without strict mode
+// openai-strict: the structured-outputs subset; every property required, objects closed
+export type SchemaProfile = 'gemini' | 'openai' | 'openai-strict'
+
+export interface SchemaTranslation {
+    schema: types.JsonSchema
+    // One note per constraint the target can't express, e.g. 'properties.mode: oneOf relaxed to anyOf'
+    lost: string[]
+}
+
+const GEMINI_KEYWORDS = new Set([
+    'type',
+    'format',
+    'title',
+    'description',
+    'nullable',
+    'enum',
+    'maxItems',
+    'minItems',
+    'properties',
+    'required',
+    'minProperties',
+    'maxProperties',
+    'minLength',
+    'maxLength',
+    'pattern',
+    'example',
+    'anyOf',
+    'propertyOrdering',
+    'default',
+    'items',
+    'minimum',
+    'maximum'
+])
+
+const OPENAI_STRICT_KEYWORDS = new Set([
+    'type',
+    'description',
+    'enum',
+    'const',
+    'anyOf',
+    'properties',
+    'required',
+    'additionalProperties',
+    'items',
+    'pattern',
+    'format',
+    'minimum',
+    'maximum',
+    'exclusiveMinimum',
+    'exclusiveMaximum',
+    'multipleOf',
+    'minItems',
+    'maxItems'
+])
+
+const GEMINI_FORMATS: { [type: string]: string[] } = {
+    string: ['enum', 'date-time'],
+    integer: ['int32', 'int64'],
+    number: ['float', 'double']
+}
+
+const OPENAI_STRICT_FORMATS = ['date-time', 'time', 'date', 'duration', 'email', 'hostname', 'ipv4', 'ipv6', 'uuid']
+
+// Annotations only: dropping them never changes which values are valid, so it isn't reported
+const ANNOTATION_KEYWORDS = new Set([
+    '$schema',
+    '$id',
+    '$anchor',
+    '$comment',
+    'title',
+    'default',
+    'examples',
+    'example',
+    'deprecated',
+    'readOnly',
+    'writeOnly',
+    'contentMediaType',
+    'contentEncoding',
+    'format',
+    'propertyOrdering'
+])
+
+// Inlined wherever they are referenced
+const DEFINITION_KEYWORDS = new Set(['$defs', 'definitions'])
+
+const SUBSCHEMA_KEYWORDS = new Set([
+    'items',
+    'additionalProperties',
+    'not',
+    'if',
+    'then',
+    'else',
+    'propertyNames',
+    'contains',
+    'unevaluatedItems',
+    'unevaluatedProperties'
+])
+const SUBSCHEMA_ARRAY_KEYWORDS = new Set(['anyOf', 'oneOf', 'prefixItems'])
+const SUBSCHEMA_MAP_KEYWORDS = new Set(['properties', 'patternProperties', 'dependentSchemas'])
+
+interface Context {
+    profile: SchemaProfile
+    root: types.JsonSchema
+    lost: string[]
+    // $refs currently being expanded, to cut off recursive definitions
+    refStack: string[]
+}
+
+export function translateSchema(schema: types.JsonSchema | undefined, profile: SchemaProfile): SchemaTranslation {
+    const context: Context = { profile, root: schema || {}, lost: [], refStack: [] }
+    const translated = translateNode(schema || { type: 'object' }, '', context)
+    if (profile === 'openai-strict' && translated.type !== 'object') {
+        lose(context, '', 'strict mode requires an object at the root')
+    }
+    return { schema: translated, lost: context.lost }
+}
+
+// Translates a tool's input_schema, adding whatever the target can't express to `warnings`
+export function toolParameters(tool: types.ClaudeTool, profile: SchemaProfile, warnings: string[]): types.JsonSchema {
+    const { schema, lost } = translateSchema(tool.input_schema, profile)
+    for (const note of lost) {
+        warnings.push(`tool ${tool.name} schema: ${note}`)
+    }
+    return schema
+}
+
+function translateNode(node: unknown, path: string, context: Context): types.JsonSchema {
+    if (node === false) {
+        lose(context, path, 'false schema accepts nothing and was replaced by an unconstrained one')
+    }
+    if (!isObject(node)) {
+        return {}
+    }
+    const schema = node as types.JsonSchema
+
+    if (typeof schema.$ref === 'string') {
+        return translateRef(schema, path, context)
+    }
+    if (Array.isArray(schema.allOf)) {
+        return translateAllOf(schema, path, context)
+    }
+
+    const { schema: normalized, nullable, singleBranch } = extractNullability(schema)
+    if (singleBranch) {
+        // e.g. anyOf: [{ $ref }, { type: 'null' }] ==> the referenced schema, nullable
+        return translateNode({ ...normalized, allOf: [singleBranch] }, path, context)
+    }
+
+    switch (context.profile) {
+        case 'gemini':
+            return toGemini(normalized, nullable, path, context)
+        case 'openai':
+            return toOpenAI(normalized, nullable, path, context)
+        case 'openai-strict':
+            return toOpenAIStrict(normalized, nullable, path, context)
+    }
+}
+
+function translateRef(schema: types.JsonSchema, path: string, context: Context): types.JsonSchema {
+    const { $ref, ...siblings } = schema
+    const ref = $ref as string
+    if (context.refStack.includes(ref)) {
+        lose(context, path, `recursive $ref ${ref} cut off`)
+        return translateNode({ type: 'object', description: siblings.description }, path, context)
+    }
+    const target = resolveRef(context.root, ref)
+    if (!target) {
+        lose(context, path, `unresolvable $ref ${ref} replaced by an unconstrained object`)
+        return translateNode({ type: 'object', description: siblings.description }, path, context)
+    }
+
+    context.refStack.push(ref)
+    try {
+        // Keywords next to $ref (description, nullable, ...) refine the referenced schema
+        return translateNode({ ...target, ...siblings }, path, context)
+    } finally {
+        context.refStack.pop()
+    }
+}
+
+// Merges the branches into one schema; exact for the common "base object + extra properties" pattern
+function translateAllOf(schema: types.JsonSchema, path: string, context: Context): types.JsonSchema {
+    const { allOf, ...rest } = schema
+    let merged: types.JsonSchema = rest
+    const pushed: string[] = []
+
+    try {
+        for (const branch of allOf || []) {
+            if (!isObject(branch)) {
+                continue
+            }
+            if (typeof branch.$ref !== 'string') {
+                merged = mergeSchemas(merged, branch)
+                continue
+            }
+
+            const { $ref, ...siblings } = branch
+            const ref = $ref as string
+            const target = context.refStack.includes(ref) ? undefined : resolveRef(context.root, ref)
+            if (!target) {
+                lose(context, path, `allOf branch ${ref} is recursive or unresolvable and was skipped`)
+                continue
+            }
+            context.refStack.push(ref)
+            pushed.push(ref)
+            merged = mergeSchemas(merged, { ...target, ...siblings })
+        }
+
+        return translateNode(merged, path, context)
+    } finally {
+        context.refStack.splice(context.refStack.length - pushed.length, pushed.length)
+    }
+}
+
+// Keywords already on `base` win; properties of the same name are combined with allOf
+function mergeSchemas(base: types.JsonSchema, extra: types.JsonSchema): types.JsonSchema {
+    const merged: types.JsonSchema = { ...extra, ...base }
+
+    if (base.properties || extra.properties) {
+        const properties: { [key: string]: types.JsonSchema } = { ...extra.properties }
+        for (const [name, property] of Object.entries(base.properties || {})) {
+            properties[name] = properties[name] ? { allOf: [property, properties[name]] } : property
+        }
+        merged.properties = properties
+    }
+    if (base.required || extra.required) {
+        merged.required = [...new Set([...(base.required || []), ...(extra.required || [])])]
+    }
+    if (base.allOf || extra.allOf) {
+        merged.allOf = [...(base.allOf || []), ...(extra.allOf || [])]
+    }
+
+    return merged
+}
+
+function isNullSchema(schema: unknown): boolean {
+    if (!isObject(schema)) {
+        return false
+    }
+    return (
+        schema.type === 'null' ||
+        (Array.isArray(schema.type) && schema.type.length === 1 && schema.type[0] === 'null') ||
+        schema.const === null ||
+        (Array.isArray(schema.enum) && schema.enum.length === 1 && schema.enum[0] === null)
+    )
+}
+
+// Pulls every spelling of "or null" (type arrays, null enum members, null anyOf/oneOf branches,
+// OpenAPI nullable) into one flag so each profile can express it its own way
+function extractNullability(schema: types.JsonSchema): {
+    schema: types.JsonSchema
+    nullable: boolean
+    singleBranch?: types.JsonSchema
+} {
+    const normalized: types.JsonSchema = { ...schema }
+    let nullable = normalized.nullable === true
+    delete normalized.nullable
+
+    if (Array.isArray(normalized.type)) {
+        if (normalized.type.includes('null')) {
+            nullable = true
+        }
+        const nonNull = normalized.type.filter(type => type !== 'null')
+        normalized.type = nonNull.length === 1 ? nonNull[0] : nonNull
+        if (nonNull.length === 0) {
+            delete normalized.type
+        }
+    } else if (normalized.type === 'null') {
+        nullable = true
+        delete normalized.type
+    }
+
+    if (Array.isArray(normalized.enum) && normalized.enum.includes(null)) {
+        nullable = true
+        normalized.enum = normalized.enum.filter(value => value !== null)
+    }
+
+    for (const keyword of ['anyOf', 'oneOf'] as const) {
+        const branches = normalized[keyword]
+        if (!Array.isArray(branches)) {
+            continue
+        }
+        const nonNull = branches.filter(branch => !isNullSchema(branch))
+        if (nonNull.length < branches.length) {
+            nullable = true
+        }
+        if (nonNull.length <= 1) {
+            delete normalized[keyword]
+            if (nonNull.length === 1) {
+                const branchSchema = nullable ? { ...normalized, nullable } : normalized
+                return { schema: branchSchema, nullable, singleBranch: nonNull[0] }
+            }
+        } else {
+            normalized[keyword] = nonNull
+        }
+    }
+
+    return { schema: normalized, nullable }
+}
+
+function typeList(schema: types.JsonSchema): types.JsonSchemaType[] {
+    if (Array.isArray(schema.type)) {
+        return [...schema.type]
+    }
+    if (schema.type) {
+        return [schema.type]
+    }
+    // Gemini and strict mode both need an explicit type on structured values
+    if (schema.properties) {
+        return ['object']
+    }
+    if (schema.items) {
+        return ['array']
+    }
+    return []
+}
+
+function toGemini(schema: types.JsonSchema, nullable: boolean, path: string, context: Context): types.JsonSchema {
+    const result: types.JsonSchema = {}
+    const schemaTypes = typeList(schema)
+
+    for (const [keyword, value] of Object.entries(schema)) {
+        if (keyword === 'type' || DEFINITION_KEYWORDS.has(keyword)) {
+            continue
+        }
+        switch (keyword) {
+            case 'oneOf':
+                lose(context, path, 'oneOf relaxed to anyOf')
+                result.anyOf = translateSubschemas(keyword, value, path, context) as types.JsonSchema[]
+                continue
+            case 'const':
+                if (typeof value === 'string') {
+                    result.enum = [value]
+                } else {
+                    lose(context, path, `non-string const ${JSON.stringify(value)} dropped`)
+                    // Keep at least the value type, e.g. const: 3 ==> type: integer
+                    if (schemaTypes.length === 0 && value !== null && typeof value !== 'object') {
+                        schemaTypes.push(jsonTypeOf(value))
+                    }
+                }
+                continue
+            case 'enum':
+                if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+                    result.enum = value
+                } else {
+                    lose(context, path, 'non-string enum dropped')
+                    // Keep at least the value type, e.g. enum: [1, 2] ==> type: integer
+                    if (schemaTypes.length === 0 && Array.isArray(value) && value.length > 0) {
+                        schemaTypes.push(jsonTypeOf(value[0]))
+                    }
+                }
+                continue
+            case 'exclusiveMinimum':
+            case 'exclusiveMaximum': {
+                const inclusive = keyword === 'exclusiveMinimum' ? 'minimum' : 'maximum'
+                if (typeof value === 'number' && schema[inclusive] === undefined) {
+                    result[inclusive] = value
+                    lose(context, path, `${keyword} treated as inclusive`)
+                } else {
+                    lose(context, path, `${keyword} dropped`)
+                }
+                continue
+            }
+            case 'items':
+                if (Array.isArray(value)) {
+                    lose(context, path, 'tuple items approximated by the first item schema')
+                    result.items = translateNode(value[0], joinPath(path, 'items[0]'), context)
+                    continue
+                }
+                break
+            case 'format':
+                if (schemaTypes.length === 1 && GEMINI_FORMATS[schemaTypes[0]]?.includes(value as string)) {
+                    result.format = value as string
+                }
+                continue
+            case 'additionalProperties':
+                if (isObject(value)) {
+                    lose(context, path, 'additionalProperties schema dropped; map entries are unconstrained')
+                }
+                continue
+        }
+
+        if (GEMINI_KEYWORDS.has(keyword)) {
+            result[keyword] = translateSubschemas(keyword, value, path, context)
+        } else if (!ANNOTATION_KEYWORDS.has(keyword)) {
+            lose(context, path, `${keyword} dropped`)
+        }
+    }
+
+    if (schemaTypes.length === 1) {
+        result.type = schemaTypes[0]
+    } else if (schemaTypes.length > 1) {
+        // Gemini takes a single type; spell a type union as anyOf
+        result.anyOf = [...schemaTypes.map(type => ({ type })), ...(result.anyOf || [])]
+    }
+    if (result.enum && !result.type) {
+        result.type = 'string'
+    }
+    if (result.required && result.properties) {
+        // Gemini rejects required names that aren't declared
+        result.required = result.required.filter(name => name in result.properties!)
+    }
+    if (nullable) {
+        result.nullable = true
+    }
+
+    return result
+}
+
+function toOpenAI(schema: types.JsonSchema, nullable: boolean, path: string, context: Context): types.JsonSchema {
+    const result: types.JsonSchema = {}
+    for (const [keyword, value] of Object.entries(schema)) {
+        if (DEFINITION_KEYWORDS.has(keyword) || keyword === '$schema' || keyword === '$id') {
+            continue
+        }
+        result[keyword] = translateSubschemas(keyword, value, path, context)
+    }
+    return nullable ? withNull(result, context) : result
+}
+
+function toOpenAIStrict(schema: types.JsonSchema, nullable: boolean, path: string, context: Context): types.JsonSchema {
+    const result: types.JsonSchema = {}
+    const schemaTypes = typeList(schema)
+
+    for (const [keyword, value] of Object.entries(schema)) {
+        if (keyword === 'type' || DEFINITION_KEYWORDS.has(keyword)) {
+            continue
+        }
+        switch (keyword) {
+            case 'oneOf':
+                lose(context, path, 'oneOf relaxed to anyOf')
+                result.anyOf = translateSubschemas(keyword, value, path, context) as types.JsonSchema[]
+                continue
+            case 'properties':
+                result.properties = translateStrictProperties(schema, path, context)
+                continue
+            case 'required':
+            case 'additionalProperties':
+                // Rebuilt below: strict objects are closed and list every property as required
+                if (isObject(value)) {
+                    lose(context, path, 'additionalProperties schema dropped; strict objects are closed')
+                }
+                continue
+            case 'items':
+                if (Array.isArray(value)) {
+                    lose(context, path, 'tuple items approximated by the first item schema')
+                    result.items = translateNode(value[0], joinPath(path, 'items[0]'), context)
+                    continue
+                }
+                break
+            case 'format':
+                if (OPENAI_STRICT_FORMATS.includes(value as string)) {
+                    result.format = value as string
+                }
+                continue
+        }
+
+        if (OPENAI_STRICT_KEYWORDS.has(keyword)) {
+            result[keyword] = translateSubschemas(keyword, value, path, context)
+        } else if (!ANNOTATION_KEYWORDS.has(keyword)) {
+            lose(context, path, `${keyword} dropped`)
+        }
+    }
+
+    if (schemaTypes.length > 0) {
+        result.type = schemaTypes.length === 1 ? schemaTypes[0] : schemaTypes
+    }
+    if (schemaTypes.includes('object')) {
+        result.properties = result.properties || {}
+        result.required = Object.keys(result.properties)
+        result.additionalProperties = false
+    }
+    if (schemaTypes.length === 0 && !result.anyOf && !result.enum && result.const === undefined) {
+        lose(context, path, 'untyped schema can not be expressed in strict mode')
+    }
+
+    return nullable ? withNull(result, context) : result
+}
+
+// Strict mode has no optional properties: formerly optional ones become required but nullable
+function translateStrictProperties(
+    schema: types.JsonSchema,
+    path: string,
+    context: Context
+): { [key: string]: types.JsonSchema } {
+    const required = new Set(schema.required || [])
+    const properties: { [key: string]: types.JsonSchema } = {}
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+        const propertyPath = joinPath(path, `properties.${name}`)
+        properties[name] = translateNode(
+            required.has(name) || !isObject(property) ? property : { ...property, nullable: true },
+            propertyPath,
+            context
+        )
+    }
+    return properties
+}
+
+// JSON Schema spelling of OpenAPI's nullable
+function withNull(schema: types.JsonSchema, context: Context): types.JsonSchema {
+    const result: types.JsonSchema = { ...schema }
+    // const: x would still reject null
+    if (result.const !== undefined && result.enum === undefined) {
+        result.enum = [result.const]
+        delete result.const
+    }
+    if (Array.isArray(result.enum) && !result.enum.includes(null)) {
+        result.enum = [...result.enum, null]
+    }
+    if (Array.isArray(result.type)) {
+        if (!result.type.includes('null')) {
+            result.type = [...result.type, 'null']
+        }
+        return result
+    }
+    if (result.type) {
+        result.type = [result.type, 'null']
+        return result
+    }
+    if (result.enum) {
+        return result
+    }
+    if (schema.anyOf) {
+        return { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] }
+    }
+    if (context.profile === 'openai-strict') {
+        return { anyOf: [schema, { type: 'null' }] }
+    }
+    // Untyped schemas already accept null
+    return schema
+}
+
+function translateSubschemas(keyword: string, value: unknown, path: string, context: Context): any {
+    if (SUBSCHEMA_KEYWORDS.has(keyword)) {
+        if (typeof value === 'boolean') {
+            return value
+        }
+        if (Array.isArray(value)) {
+            return value.map((item, i) => translateNode(item, joinPath(path, `${keyword}[${i}]`), context))
+        }
+        return translateNode(value, joinPath(path, keyword), context)
+    }
+    if (SUBSCHEMA_ARRAY_KEYWORDS.has(keyword) && Array.isArray(value)) {
+        return value.map((item, i) => translateNode(item, joinPath(path, `${keyword}[${i}]`), context))
+    }
+    if (SUBSCHEMA_MAP_KEYWORDS.has(keyword) && isObject(value)) {
+        const result: { [key: string]: types.JsonSchema } = {}
+        for (const [name, item] of Object.entries(value)) {
+            result[name] = translateNode(item, joinPath(path, `${keyword}.${name}`), context)
+        }
+        return result
+    }
+    return value
+}
+
+// Only local JSON pointers ('#/$defs/Foo', '#/definitions/Foo', '#') can be inlined
+function resolveRef(root: types.JsonSchema, ref: string): types.JsonSchema | undefined {
+    if (!ref.startsWith('#')) {
+        return undefined
+    }
+    let target: unknown = root
+    const segments = ref
+        .slice(1)
+        .split('/')
+        .filter(segment => segment !== '')
+    for (const segment of segments) {
+        if (!isObject(target)) {
+            return undefined
+        }
+        const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+        target = target[key]
+    }
+    return isObject(target) ? (target as types.JsonSchema) : undefined
+}
+
+function jsonTypeOf(value: unknown): types.JsonSchemaType {
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number'
+    }
+    if (typeof value === 'boolean') {
+        return 'boolean'
+    }
+    return 'string'
+}
+
+function isObject(value: unknown): value is { [key: string]: any } {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function joinPath(path: string, segment: string): string {
+    return path ? `${path}.${segment}` : segment
+}
+
+function lose(context: Context, path: string, message: string): void {
+    context.lost.push(`${path || '(root)'}: ${message}`)
+}
@@ -0,0 +1,257 @@
+import * as types from './types'
+import * as errors from './errors'
+import * as utils from './utils'
+
+// How the proxy talks to the upstream, independent of what the client asked for:
+// 'auto' follows the client's stream flag, the others suit relays that only support one mode
+export type UpstreamMode = 'auto' | 'force-stream' | 'force-nonstream'
+
+export function upstreamStream(mode: UpstreamMode, clientStream: boolean): boolean {
+    return mode === 'auto' ? clientStream : mode === 'force-stream'
+}
+
+// Providers answer in whatever shape the upstream used (they branch on its content-type); this turns a successful
+// Claude response into the shape the client asked for
+export async function matchClientMode(response: Response, clientStream: boolean): Promise<Response> {
+    if (!response.ok) {
+        return response
+    }
+    const isStream = (response.headers.get('content-type') || '').includes('text/event-stream')
+    if (isStream === clientStream) {
+        return response
+    }
+    if (clientStream) {
+        return toStream((await response.json()) as types.ClaudeResponse, response.headers)
+    }
+    return aggregate(response)
+}
+
+// For a streaming client of an upstream that only answers with complete replies: the stream opens with
+// message_start at once and pings while the upstream generates, so the client and any proxy in between don't give
+// up on a silent connection. The reply, whatever its shape, is then replayed as the rest of the stream; a failure
+// becomes an error event since the status line has already gone out.
+export function keepAlive(model: string, reply: Promise<Response>): Response {
+    const encoder = new TextEncoder()
+    let pingTimer: ReturnType<typeof setInterval> | null = null
+
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (events: string[]) => controller.enqueue(encoder.encode(events.join('')))
+            send([
+                event('message_start', {
+                    type: 'message_start',
+                    message: {
+                        id: utils.generateId(),
+                        type: 'message',
+                        role: 'assistant',
+                        model,
+                        content: [],
+                        stop_reason: null,
+                        stop_sequence: null,
+                        usage: { input_tokens: 0, output_tokens: 0 }
+                    }
+                })
+            ])
+            pingTimer = setInterval(() => send([event('ping', { type: 'ping' })]), utils.PING_INTERVAL_MS)
+
+            reply
+                .then(replayEvents)
+                .catch(error => {
+                    if (!(error instanceof errors.ProxyError)) {
+                        console.error(error)
+                    }
+                    return error instanceof errors.ProxyError
+                        ? [errorEvent(error.type, error.message)]
+                        : [errorEvent('api_error', 'Internal server error')]
+                })
+                .then(events => {
+                    clearInterval(pingTimer)
+                    send(events)
+                    controller.close()
+                })
+                .catch(() => {
+                    // The client went away before the reply arrived
+                })
+        },
+        cancel() {
+            clearInterval(pingTimer)
+        }
+    })
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } })
+}
+
+// Everything after message_start for a finished reply, or an error event
+async function replayEvents(response: Response): Promise<string[]> {
+    const isStream = (response.headers.get('content-type') || '').includes('text/event-stream')
+    const message = response.ok && isStream ? await aggregate(response) : response
+    const data = (await message.json()) as any
+    if (!message.ok) {
+        return [errorEvent(data?.error?.type || errors.errorTypeForStatus(message.status), data?.error?.message || '')]
+    }
+    return messageEvents(data as types.ClaudeResponse).slice(1)
+}
+
+// Replays a complete message as the event sequence the Messages API would have streamed
+function toStream(message: types.ClaudeResponse, headers: Headers): Response {
+    const streamHeaders = new Headers(headers)
+    streamHeaders.set('Content-Type', 'text/event-stream')
+    streamHeaders.set('Cache-Control', 'no-cache')
+    streamHeaders.delete('Content-Length')
+    return new Response(messageEvents(message).join(''), { status: 200, headers: streamHeaders })
+}
+
+function messageEvents(message: types.ClaudeResponse): string[] {
+    const events: string[] = []
+    const write = (name: string, data: object) => events.push(event(name, data))
+
+    write('message_start', {
+        type: 'message_start',
+        message: {
+            ...message,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { ...message.usage, output_tokens: 0 }
+        }
+    })
+    message.content.forEach((block, index) => {
+        const delta = (payload: object) =>
+            write('content_block_delta', { type: 'content_block_delta', index, delta: payload })
+        switch (block.type) {
+            case 'text':
+                write('content_block_start', {
+                    type: 'content_block_start',
+                    index,
+                    content_block: { type: 'text', text: '' }
+                })
+                delta({ type: 'text_delta', text: block.text })
+                break
+            case 'thinking':
+                write('content_block_start', {
+                    type: 'content_block_start',
+                    index,
+                    content_block: { type: 'thinking', thinking: '' }
+                })
+                delta({ type: 'thinking_delta', thinking: block.thinking })
+                if (block.signature) {
+                    delta({ type: 'signature_delta', signature: block.signature })
+                }
+                break
+            case 'tool_use':
+                write('content_block_start', {
+                    type: 'content_block_start',
+                    index,
+                    content_block: { ...block, input: {} }
+                })
+                delta({ type: 'input_json_delta', partial_json: JSON.stringify(block.input ?? {}) })
+                break
+            default:
+                // Blocks without deltas (e.g. redacted_thinking) arrive whole in content_block_start
+                write('content_block_start', { type: 'content_block_start', index, content_block: block })
+        }
+        write('content_block_stop', { type: 'content_block_stop', index })
+    })
+    write('message_delta', {
+        type: 'message_delta',
+        delta: { stop_reason: message.stop_reason, stop_sequence: message.stop_sequence },
+        usage: message.usage
+    })
+    write('message_stop', { type: 'message_stop' })
+    return events
+}
+
+function event(name: string, data: object): string {
+    return `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+function errorEvent(type: errors.ClaudeErrorType, message: string): string {
+    return event('error', errors.errorBody(type, message))
+}
+
+// Folds a Claude SSE stream back into one message; an error event becomes an error response
+async function aggregate(response: Response): Promise<Response> {
+    let message: types.ClaudeResponse | undefined
+    const blocks: any[] = []
+    // Tool input arrives as JSON fragments and is parsed once the block stops
+    const partialInputs = new Map<number, string>()
+
+    const text = await response.text()
+    for (const line of text.split('\n')) {
+        if (!line.startsWith('data:')) {
+            continue
+        }
+        let data: any
+        try {
+            data = JSON.parse(line.slice(5).trim())
+        } catch {
+            continue
+        }
+
+        switch (data.type) {
+            case 'message_start':
+                message = { ...data.message, content: [] }
+                break
+            case 'content_block_start':
+                blocks[data.index] = { ...data.content_block }
+                // Upstreams without signatures never send a signature_delta; non-streaming replies carry ''
+                if (blocks[data.index].type === 'thinking' && blocks[data.index].signature === undefined) {
+                    blocks[data.index].signature = ''
+                }
+                break
+            case 'content_block_delta': {
+                const block = blocks[data.index]
+                const delta = data.delta
+                if (!block || !delta) {
+                    break
+                }
+                if (delta.type === 'text_delta') {
+                    block.text = (block.text || '') + delta.text
+                } else if (delta.type === 'thinking_delta') {
+                    block.thinking = (block.thinking || '') + delta.thinking
+                } else if (delta.type === 'signature_delta') {
+                    block.signature = delta.signature
+                } else if (delta.type === 'input_json_delta') {
+                    partialInputs.set(data.index, (partialInputs.get(data.index) || '') + delta.partial_json)
+                }
+                break
+            }
+            case 'content_block_stop': {
+                const partial = partialInputs.get(data.index)
+                if (partial !== undefined && blocks[data.index]) {
+                    try {
+                        blocks[data.index].input = JSON.parse(partial)
+                    } catch {
+                        console.warn('Dropping unparseable tool input:', partial.slice(0, 200))
+                    }
+                }
+                break
+            }
+            case 'message_delta':
+                if (message) {
+                    message.stop_reason = data.delta?.stop_reason ?? message.stop_reason
+                    message.stop_sequence = data.delta?.stop_sequence ?? message.stop_sequence
+                    message.usage = { ...message.usage, ...data.usage }
+                }
+                break
+            case 'error': {
+                const type: errors.ClaudeErrorType = data.error?.type || 'api_error'
+                return errors.errorResponse(
+                    errors.statusForErrorType(type),
+                    type,
+                    data.error?.message || 'Upstream error'
+                )
+            }
+        }
+    }
+
+    if (!message) {
+        return errors.errorResponse(502, 'api_error', 'Upstream stream ended before message_start')
+    }
+    message.content = blocks.filter(block => block)
+
+    const headers = new Headers(response.headers)
+    headers.set('Content-Type', 'application/json')
+    headers.delete('Cache-Control')
+    headers.delete('Content-Length')
+    return new Response(JSON.stringify(message), { status: 200, headers })
+}
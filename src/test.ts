@@ -6,6 +6,10 @@ import * as oainew from './oainew'
 // A simple echo provider that returns the original request body
 export class impl implements provider.Provider {
     private rawBody: string | undefined
+    private model = ''
+    warnings: string[] = []
+
+    constructor(private context: provider.Context = provider.defaultContext) {}
 
     async convertToProviderRequest(request: Request, baseUrl: string, apiKey: string): Promise<Request> {
         // Capture the exact original body for echo
@@ -14,25 +18,40 @@ export class impl implements provider.Provider {
         // Try to forward via oainew, forcing non-stream for easier aggregation
         try {
             const parsed = JSON.parse(this.rawBody)
+            this.model = parsed.model
             const forwardedBody = { ...parsed, stream: false }
             const modReq = new Request(request, {
                 method: 'POST',
                 headers: request.headers,
                 body: JSON.stringify(forwardedBody)
             })
-            const forwarder = new oainew.impl()
-            return await forwarder.convertToProviderRequest(modReq, baseUrl, apiKey)
+            const forwarder = new oainew.impl(this.context)
+            const providerRequest = await forwarder.convertToProviderRequest(modReq, baseUrl, apiKey)
+            this.warnings = forwarder.warnings
+            return providerRequest
         } catch {
             // Fallback: pass through to oainew with original request if body isn't JSON
-            const forwarder = new oainew.impl()
+            const forwarder = new oainew.impl(this.context)
             const passthroughReq = new Request(request, { method: 'POST', headers: request.headers, body: this.rawBody })
             return await forwarder.convertToProviderRequest(passthroughReq, baseUrl, apiKey)
         }
     }
 
+    async countTokens(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        return new oainew.impl(this.context).countTokens(request, baseUrl, apiKey)
+    }
+
+    async listModels(request: Request, baseUrl: string, apiKey: string): Promise<Response> {
+        return new oainew.impl(this.context).listModels(request, baseUrl, apiKey)
+    }
+
+    async retrieveModel(request: Request, baseUrl: string, apiKey: string, modelId: string): Promise<Response> {
+        return new oainew.impl(this.context).retrieveModel(request, baseUrl, apiKey, modelId)
+    }
+
     async convertToClaudeResponse(providerResponse: Response): Promise<Response> {
         // Convert provider response to Claude style using oainew
-        const forwarder = new oainew.impl()
+        const forwarder = new oainew.impl(this.context)
         const converted = await forwarder.convertToClaudeResponse(providerResponse)
         const convertedText = await converted.text()
 
@@ -43,13 +62,16 @@ export class impl implements provider.Provider {
             id: utils.generateId(),
             type: 'message',
             role: 'assistant',
+            model: this.model,
             content: [
                 {
                     type: 'text',
                     text: combined
                 }
             ],
-            stop_reason: 'end_turn'
+            stop_reason: 'end_turn',
+            stop_sequence: null,
+            usage: { input_tokens: 0, output_tokens: 0 }
         }
 
         return new Response(JSON.stringify(claudeResponse), {
@@ -1,9 +1,60 @@
+export type JsonSchemaType = 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'null'
+
+// Draft 2020-12 plus the OpenAPI 3.0 additions (nullable, example) that Gemini's schema subset uses
 export interface JsonSchema {
-    type?: 'object' | 'string' | 'number' | 'boolean' | 'array'
+    $schema?: string
+    $id?: string
+    $ref?: string
+    $defs?: { [key: string]: JsonSchema }
+    definitions?: { [key: string]: JsonSchema }
+    $comment?: string
+
+    type?: JsonSchemaType | JsonSchemaType[]
+    nullable?: boolean
+    title?: string
+    description?: string
+    default?: unknown
+    examples?: unknown[]
+    example?: unknown
+    enum?: unknown[]
+    const?: unknown
+    format?: string
+
+    minLength?: number
+    maxLength?: number
+    pattern?: string
+
+    minimum?: number
+    maximum?: number
+    exclusiveMinimum?: number
+    exclusiveMaximum?: number
+    multipleOf?: number
+
+    items?: JsonSchema | JsonSchema[]
+    prefixItems?: JsonSchema[]
+    minItems?: number
+    maxItems?: number
+    uniqueItems?: boolean
+
     properties?: { [key: string]: JsonSchema }
     required?: string[]
-    description?: string
-    items?: JsonSchema
+    additionalProperties?: boolean | JsonSchema
+    patternProperties?: { [pattern: string]: JsonSchema }
+    propertyNames?: JsonSchema
+    minProperties?: number
+    maxProperties?: number
+    propertyOrdering?: string[]
+
+    anyOf?: JsonSchema[]
+    oneOf?: JsonSchema[]
+    allOf?: JsonSchema[]
+    not?: JsonSchema
+    if?: JsonSchema
+    then?: JsonSchema
+    else?: JsonSchema
+
+    // Vendor extensions and keywords from other drafts
+    [keyword: string]: unknown
 }
 
 export interface ClaudeTool {
@@ -12,43 +63,103 @@ export interface ClaudeTool {
     input_schema: JsonSchema
 }
 
+export type ClaudeImageSource = { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string }
+
+export type ClaudeToolResultContent =
+    string | Array<{ type: 'text'; text: string } | { type: 'image'; source: ClaudeImageSource }>
+
 export type ClaudeContent =
     | string
     | Array<
           | { type: 'text'; text: string }
+          | { type: 'image'; source: ClaudeImageSource }
           | { type: 'tool_use'; id: string; name: string; input: any }
-          | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean }
+          | { type: 'tool_result'; tool_use_id: string; content: ClaudeToolResultContent; is_error?: boolean }
+          | { type: 'thinking'; thinking: string; signature?: string }
+          | { type: 'redacted_thinking'; data: string }
       >
+
+export type ClaudeToolChoice =
+    | { type: 'auto'; disable_parallel_tool_use?: boolean }
+    | { type: 'any'; disable_parallel_tool_use?: boolean }
+    | { type: 'tool'; name: string; disable_parallel_tool_use?: boolean }
+    | { type: 'none' }
+
+export type ClaudeThinkingConfig = { type: 'enabled'; budget_tokens: number } | { type: 'disabled' }
 
 export interface ClaudeMessage {
     role: 'user' | 'assistant'
     content: ClaudeContent
 }
 
+export interface ClaudeCacheControl {
+    type: 'ephemeral'
+    ttl?: string
+}
+
+// Claude Code sends the system prompt as text blocks with cache_control breakpoints
+export interface ClaudeSystemBlock {
+    type: 'text'
+    text: string
+    cache_control?: ClaudeCacheControl
+}
+
 export interface ClaudeRequest {
     model: string
     // Claude v1/messages supports a top-level system prompt. Some clients (e.g., Claude Code)
     // rely on this to instruct the model to use tools. We surface it so providers can forward it.
-    system?: string
+    system?: string | ClaudeSystemBlock[]
     messages: ClaudeMessage[]
     max_tokens?: number
     temperature?: number
+    top_p?: number
+    top_k?: number
+    stop_sequences?: string[]
+    metadata?: { user_id?: string }
     stream?: boolean
     tools?: ClaudeTool[]
+    tool_choice?: ClaudeToolChoice
+    thinking?: ClaudeThinkingConfig
 }
 
+export type ClaudeStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use'
+
+export interface ClaudeUsage {
+    input_tokens: number
+    output_tokens: number
+    cache_creation_input_tokens?: number
+    cache_read_input_tokens?: number
+}
+
 export interface ClaudeResponse {
     id: string
     type: 'message'
     role: 'assistant'
-    content: Array<{ type: 'text'; text: string } | { type: 'tool_use'; id: string; name: string; input: any }>
-    stop_reason?: 'end_turn' | 'tool_use' | 'max_tokens'
-    usage?: {
-        input_tokens: number
-        output_tokens: number
-    }
+    model: string
+    content: Array<
+        | { type: 'text'; text: string }
+        | { type: 'thinking'; thinking: string; signature: string }
+        | { type: 'tool_use'; id: string; name: string; input: any }
+    >
+    stop_reason: ClaudeStopReason | null
+    stop_sequence: string | null
+    usage: ClaudeUsage
 }
 
+export interface ClaudeModel {
+    type: 'model'
+    id: string
+    display_name: string
+    created_at: string
+}
+
+export interface ClaudeModelList {
+    data: ClaudeModel[]
+    has_more: boolean
+    first_id: string | null
+    last_id: string | null
+}
+
 export interface GeminiFunctionDeclaration {
     name: string
     description: string
@@ -60,22 +171,41 @@ export interface GeminiTool {
 }
 
 export type GeminiPart =
-    | { text: string }
-    | { functionCall: { name: string; args: any } }
-    | { functionResponse: { name: string; response: any } }
+    | { text: string; thought?: boolean; thoughtSignature?: string }
+    | { inlineData: { mimeType: string; data: string } }
+    | { fileData: { mimeType?: string; fileUri: string } }
+    // Gemini 2.5+ attaches thoughtSignature to the first functionCall of a turn and wants it back verbatim
+    | { functionCall: { id?: string; name: string; args: any }; thoughtSignature?: string }
+    | { functionResponse: { id?: string; name: string; response: { output?: any; error?: any } } }
 
 export interface GeminiContent {
     parts: GeminiPart[]
-    role?: 'user' | 'model' | 'tool'
+    role?: 'user' | 'model'
 }
 
 export interface GeminiRequest {
     model?: string
     contents: GeminiContent[]
+    systemInstruction?: {
+        parts: Array<{ text: string }>
+    }
     tools?: GeminiTool[]
+    toolConfig?: {
+        functionCallingConfig: {
+            mode: 'AUTO' | 'ANY' | 'NONE'
+            allowedFunctionNames?: string[]
+        }
+    }
     generationConfig?: {
         temperature?: number
+        topP?: number
+        topK?: number
         maxOutputTokens?: number
+        stopSequences?: string[]
+        thinkingConfig?: {
+            thinkingBudget?: number
+            includeThoughts?: boolean
+        }
     }
 }
 
@@ -89,11 +219,31 @@ export interface GeminiCandidate {
 
 export interface GeminiResponse {
     candidates: GeminiCandidate[]
-    usageMetadata?: {
-        promptTokenCount: number
-        candidatesTokenCount: number
-        totalTokenCount: number
-    }
+    usageMetadata?: GeminiUsageMetadata
+}
+
+export interface GeminiModel {
+    name: string
+    displayName?: string
+    supportedGenerationMethods?: string[]
+}
+
+export interface GeminiModelList {
+    models?: GeminiModel[]
+    nextPageToken?: string
+}
+
+export interface GeminiCountTokensResponse {
+    totalTokens: number
+    cachedContentTokenCount?: number
+}
+
+export interface GeminiUsageMetadata {
+    promptTokenCount: number
+    candidatesTokenCount?: number
+    totalTokenCount: number
+    cachedContentTokenCount?: number
+    thoughtsTokenCount?: number
 }
 
 export interface ClaudeStreamEvent {
@@ -106,27 +256,32 @@ export interface ClaudeStreamEvent {
         | 'message_stop'
     message?: Partial<ClaudeResponse>
     content_block?: {
-        type: 'text' | 'tool_use'
+        type: 'text' | 'thinking' | 'tool_use'
         text?: string
+        thinking?: string
+        signature?: string
         id?: string
         name?: string
         input?: any
     }
     delta?: {
-        type: 'text_delta' | 'input_json_delta'
+        type: 'text_delta' | 'thinking_delta' | 'signature_delta' | 'input_json_delta'
         text?: string
+        thinking?: string
+        signature?: string
         partial_json?: string
     }
     index?: number
-    usage?: {
-        input_tokens: number
-        output_tokens: number
-    }
+    usage?: Partial<ClaudeUsage>
 }
 
+export type OpenAIContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }
+
 export interface OpenAIMessage {
     role: 'system' | 'user' | 'assistant' | 'tool'
-    content?: string | null
+    content?: string | OpenAIContentPart[] | null
+    // OpenAI 兼容上游（如 DeepSeek）在此返回思考内容
+    reasoning_content?: string | null
     tool_calls?: OpenAIToolCall[]
     tool_call_id?: string
 }
@@ -154,14 +309,28 @@ export interface OpenAIRequest {
     model: string
     messages: OpenAIMessage[]
     tools?: OpenAITool[]
-    tool_choice?: string | { type: string; function?: { name: string } }
+    tool_choice?: 'auto' | 'required' | 'none' | { type: 'function'; function: { name: string } }
+    parallel_tool_calls?: boolean
     temperature?: number
+    top_p?: number
+    stop?: string[]
+    user?: string
     max_tokens?: number
     max_completion_tokens?: number  // 新的参数支持
     stream?: boolean
+    stream_options?: {
+        include_usage?: boolean
+    }
+    reasoning_effort?: string
 }
 
-export interface OpenAIChoice {
+// vLLM/SGLang 扩展：命中的停止字符串（或停止 token id）
+export interface OpenAIMatchedStop {
+    stop_reason?: string | number | null
+    matched_stop?: string | number | null
+}
+
+export interface OpenAIChoice extends OpenAIMatchedStop {
     index: number
     message: OpenAIMessage
     finish_reason: string | null
@@ -173,18 +342,39 @@ export interface OpenAIResponse {
     created: number
     model: string
     choices: OpenAIChoice[]
-    usage?: {
-        prompt_tokens: number
-        completion_tokens: number
-        total_tokens: number
+    usage?: OpenAIUsage
+}
+
+export interface OpenAIUsage {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+    prompt_tokens_details?: {
+        cached_tokens?: number
     }
+    completion_tokens_details?: {
+        reasoning_tokens?: number
+    }
 }
 
-export interface OpenAIStreamChoice {
+export interface OpenAIModel {
+    id: string
+    object: 'model'
+    created?: number
+    owned_by?: string
+}
+
+export interface OpenAIModelList {
+    object: 'list'
+    data: OpenAIModel[]
+}
+
+export interface OpenAIStreamChoice extends OpenAIMatchedStop {
     index: number
     delta: {
         role?: string
         content?: string
+        reasoning_content?: string
         tool_calls?: Array<{
             index: number
             id?: string
@@ -204,65 +394,103 @@ export interface OpenAIStreamResponse {
     created: number
     model: string
     choices: OpenAIStreamChoice[]
+    // 仅在请求 stream_options.include_usage 时出现于最后一个 chunk，此时 choices 为空
+    usage?: OpenAIUsage | null
 }
 
-// Responses API 类型定义
-export interface OpenAIResponsesRequest {
-    model: string
-    input: OpenAIMessage[]
-    tools?: OpenAITool[]
-    tool_choice?: string | { type: string; function?: { name: string } }
-    temperature?: number
-    max_tokens?: number  // 保留向后兼容
-    max_completion_tokens?: number  // 新的参数名
-    stream?: boolean
-    reasoning_effort?: string
-    stream_options?: {
-        include_usage?: boolean
-    }
-}
-
-export interface OpenAIResponsesItem {
-    type: 'text' | 'function_call' | 'reasoning'
-    id?: string
-    call_id?: string
-    name?: string
-    arguments?: string
-    content?: string
-    text?: string
-}
-
-export interface OpenAIResponsesOutput {
-    output: OpenAIResponsesItem[]
-    usage?: {
-        prompt_tokens: number
-        completion_tokens: number
-        total_tokens: number
-    }
-}
-
-export interface OpenAIResponsesStreamChoice {
-    index: number
-    delta: {
-        role?: string
-        content?: string
-        tool_calls?: Array<{
-            index: number
-            id?: string
-            type?: 'function'
-            function?: {
-                name?: string
-                arguments?: string
-            }
-        }>
-    }
-    finish_reason?: string | null
-}
-
-export interface OpenAIResponsesStreamResponse {
-    id: string
-    object: string
-    created: number
-    model: string
-    choices: OpenAIResponsesStreamChoice[]
-}
+// Responses API 类型定义
+export type OpenAIResponsesContent =
+    | { type: 'input_text'; text: string }
+    | { type: 'input_image'; image_url: string }
+    | { type: 'output_text'; text: string }
+
+export type OpenAIResponsesItem =
+    | {
+          type: 'message'
+          id?: string
+          role: 'user' | 'assistant' | 'system' | 'developer'
+          content: string | OpenAIResponsesContent[]
+      }
+    | { type: 'function_call'; id?: string; call_id: string; name: string; arguments: string; status?: string }
+    | { type: 'function_call_output'; call_id: string; output: string }
+    | {
+          type: 'reasoning'
+          id: string
+          summary: Array<{ type: 'summary_text'; text: string }>
+          encrypted_content?: string | null
+      }
+
+export interface OpenAIResponsesTool {
+    type: 'function'
+    name: string
+    description?: string
+    parameters?: any
+    strict?: boolean
+}
+
+export interface OpenAIResponsesRequest {
+    model: string
+    input: OpenAIResponsesItem[]
+    instructions?: string
+    tools?: OpenAIResponsesTool[]
+    tool_choice?: 'auto' | 'required' | 'none' | { type: 'function'; name: string }
+    parallel_tool_calls?: boolean
+    temperature?: number
+    top_p?: number
+    user?: string
+    max_output_tokens?: number
+    stream?: boolean
+    reasoning?: {
+        effort?: string
+        summary?: 'auto' | 'concise' | 'detailed'
+    }
+    include?: string[]
+    store?: boolean
+}
+
+export interface OpenAIResponsesUsage {
+    input_tokens: number
+    output_tokens: number
+    total_tokens: number
+    input_tokens_details?: {
+        cached_tokens?: number
+    }
+    output_tokens_details?: {
+        reasoning_tokens?: number
+    }
+}
+
+export type OpenAIResponsesOutputItem =
+    | {
+          type: 'message'
+          id: string
+          role: 'assistant'
+          content: Array<{ type: 'output_text'; text: string } | { type: 'refusal'; refusal: string }>
+      }
+    | Extract<OpenAIResponsesItem, { type: 'function_call' | 'reasoning' }>
+
+export interface OpenAIResponsesOutput {
+    id: string
+    model: string
+    status: 'completed' | 'incomplete' | 'failed' | 'in_progress' | 'queued' | 'cancelled'
+    output: OpenAIResponsesOutputItem[]
+    incomplete_details?: { reason: string } | null
+    error?: { code: string; message: string } | null
+    usage?: OpenAIResponsesUsage
+}
+
+// 流式响应使用带类型的 response.* 事件，而非 chat.completion.chunk
+export type OpenAIResponsesStreamEvent =
+    | { type: 'response.created' | 'response.in_progress'; response: OpenAIResponsesOutput }
+    | {
+          type: 'response.output_item.added' | 'response.output_item.done'
+          output_index: number
+          item: OpenAIResponsesOutputItem
+      }
+    | { type: 'response.output_text.delta'; output_index: number; delta: string }
+    | { type: 'response.refusal.delta'; output_index: number; delta: string }
+    | { type: 'response.reasoning_summary_text.delta'; output_index: number; summary_index: number; delta: string }
+    | { type: 'response.reasoning_summary_part.added'; output_index: number; summary_index: number }
+    | { type: 'response.function_call_arguments.delta'; output_index: number; delta: string }
+    | { type: 'response.completed' | 'response.incomplete' | 'response.failed'; response: OpenAIResponsesOutput }
+    | { type: 'error'; code?: string | null; message: string }
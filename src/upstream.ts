@@ -0,0 +1,245 @@
+import * as config from './config'
+import * as errors from './errors'
+
+const MAX_REDIRECTS = 5
+// Never sent on to a different origin, which may be a host the operator's keys were not meant for
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'x-api-key', 'x-goog-api-key', 'cookie']
+
+export type Fetch = (input: Request | string | URL, init?: RequestInit) => Promise<Response>
+
+export interface Policy {
+    // Host patterns ('*.openai.com', https on the default port only) or URL prefixes ('https://gateway.example/v1/',
+    // for any other scheme or port); empty allows any host
+    allow: string[]
+    // Reject loopback, private, link-local and CGNAT addresses plus localhost/.local/.internal names
+    denyPrivate: boolean
+}
+
+// Milliseconds from sending the request; 0 disables the check
+export interface Timeouts {
+    // Until the response headers arrive. For non-streaming requests that covers the whole generation.
+    connectMs: number
+    // Until the first body chunk arrives, e.g. a reasoning model that accepted a stream but stays silent. The
+    // response is held back until then, so a streaming client gets no pings while this timer runs.
+    firstByteMs: number
+}
+
+export class TimeoutError extends Error {}
+
+// The upstream couldn't be reached or dropped the connection; worth retrying like a timeout
+export class NetworkError extends Error {}
+
+export function timeoutsFromEnv(env: Env, overrides: Partial<Timeouts>): Timeouts {
+    return {
+        connectMs: overrides.connectMs ?? (Number(env.UPSTREAM_CONNECT_TIMEOUT_MS) || 0),
+        firstByteMs: overrides.firstByteMs ?? (Number(env.UPSTREAM_FIRST_BYTE_TIMEOUT_MS) || 0)
+    }
+}
+
+export function policyFromEnv(env: Env): Policy {
+    return {
+        allow: config.parseList(env.UPSTREAM_ALLOWLIST),
+        denyPrivate: env.UPSTREAM_DENY_PRIVATE?.toLowerCase() === 'true'
+    }
+}
+
+// Decides which upstream URLs the worker may call, including every redirect hop. A named route's own origin is
+// trusted since it comes from the operator's config, not from the request path.
+export class Guard {
+    private trustedOrigin: string | undefined
+
+    constructor(
+        private policy: Policy,
+        trustedBaseUrl?: string
+    ) {
+        this.trustedOrigin = trustedBaseUrl ? parseUrl(trustedBaseUrl)?.origin : undefined
+    }
+
+    check(target: string | URL): void {
+        const url = parseUrl(target)
+        if (!url) {
+            throw new errors.ProxyError(400, 'invalid_request_error', `Invalid upstream URL: ${target}`)
+        }
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            throw new errors.ProxyError(403, 'permission_error', `Upstream protocol not allowed: ${url.protocol}`)
+        }
+        if (this.policy.denyPrivate && isPrivateHost(url.hostname)) {
+            throw new errors.ProxyError(403, 'permission_error', `Upstream host not allowed: ${url.hostname}`)
+        }
+        if (url.origin === this.trustedOrigin || this.policy.allow.length === 0) {
+            return
+        }
+        const allowed = this.policy.allow.some(entry =>
+            entry.includes('://') ? matchesUrlPrefix(url, entry) : matchesHost(url, entry)
+        )
+        if (!allowed) {
+            throw new errors.ProxyError(403, 'permission_error', `Upstream host not allowed: ${url.hostname}`)
+        }
+    }
+
+    // fetch() follows redirects on its own, which would let an allowed host bounce the request anywhere
+    fetch: Fetch = async (input, init) => {
+        let request = new Request(input, init)
+        for (let hop = 0; ; hop++) {
+            this.check(request.url)
+            // 307/308 resend the body, so keep a copy before it's consumed
+            const replay = request.body ? request.clone() : request
+            const response = await fetch(request, { redirect: 'manual' })
+            const location = response.headers.get('location')
+            if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+                return response
+            }
+            if (hop >= MAX_REDIRECTS) {
+                throw new errors.ProxyError(502, 'api_error', 'Upstream redirected too many times')
+            }
+
+            const nextUrl = new URL(location, request.url)
+            const headers =
+                nextUrl.origin === new URL(request.url).origin ? replay.headers : withoutCredentials(replay.headers)
+            const keepsMethod = response.status === 307 || response.status === 308 || replay.method === 'GET'
+            request = keepsMethod
+                ? new Request(new Request(nextUrl, replay), { headers })
+                : new Request(nextUrl, { method: 'GET', headers: withoutBodyHeaders(headers) })
+            await response.body?.cancel()
+        }
+    }
+}
+
+// Aborts the upstream request once a timeout passes. A timeout rejects with TimeoutError and a failed connection
+// with NetworkError, so callers can tell both apart from errors that would repeat on every retry.
+export async function fetchWithTimeouts(fetchUpstream: Fetch, request: Request, timeouts: Timeouts): Promise<Response> {
+    if (timeouts.connectMs <= 0 && timeouts.firstByteMs <= 0) {
+        return fetchUpstream(request).catch(asNetworkError)
+    }
+
+    const controller = new AbortController()
+    const startedAt = Date.now()
+    const abortAfter = (ms: number, what: string) =>
+        ms > 0
+            ? setTimeout(() => controller.abort(new TimeoutError(`No ${what} from upstream after ${ms}ms`)), ms)
+            : null
+
+    const connectTimer = abortAfter(timeouts.connectMs, 'response')
+    let response: Response
+    try {
+        response = await fetchUpstream(new Request(request, { signal: controller.signal })).catch(asNetworkError)
+    } finally {
+        clearTimeout(connectTimer)
+    }
+    if (timeouts.firstByteMs <= 0 || !response.body) {
+        return response
+    }
+
+    const reader = response.body.getReader()
+    const firstByteTimer = abortAfter(Math.max(timeouts.firstByteMs - (Date.now() - startedAt), 1), 'data')
+    let first: ReadableStreamReadResult<Uint8Array>
+    try {
+        first = await reader.read().catch(asNetworkError)
+    } finally {
+        clearTimeout(firstByteTimer)
+    }
+
+    // Hand the chunk we already read back in front of the rest of the body
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (first.done) {
+                controller.close()
+            } else {
+                controller.enqueue(first.value)
+            }
+        },
+        async pull(controller) {
+            const { done, value } = await reader.read()
+            if (done) {
+                controller.close()
+            } else {
+                controller.enqueue(value)
+            }
+        },
+        cancel(reason) {
+            return reader.cancel(reason)
+        }
+    })
+    return new Response(body, response)
+}
+
+function asNetworkError(error: unknown): never {
+    if (error instanceof TimeoutError || error instanceof errors.ProxyError) {
+        throw error
+    }
+    throw new NetworkError(error instanceof Error ? error.message : String(error))
+}
+
+function parseUrl(value: string | URL): URL | undefined {
+    try {
+        return new URL(value)
+    } catch {
+        return undefined
+    }
+}
+
+// A bare host says nothing about scheme or port, so it only covers the usual https endpoint and not e.g.
+// http://api.openai.com:6379/
+function matchesHost(url: URL, entry: string): boolean {
+    return url.protocol === 'https:' && url.port === '' && config.matchesPattern(url.hostname, entry.toLowerCase())
+}
+
+// 'https://gateway.example/v1' allows that origin's /v1 and everything below it, but not /v1beta or another host
+function matchesUrlPrefix(url: URL, entry: string): boolean {
+    const prefix = parseUrl(entry)
+    if (!prefix || url.origin !== prefix.origin) {
+        return false
+    }
+    const path = prefix.pathname.endsWith('/') ? prefix.pathname : `${prefix.pathname}/`
+    return url.pathname === prefix.pathname || url.pathname.startsWith(path)
+}
+
+function withoutCredentials(headers: Headers): Headers {
+    const filtered = new Headers(headers)
+    for (const name of CREDENTIAL_HEADERS) {
+        filtered.delete(name)
+    }
+    return filtered
+}
+
+function withoutBodyHeaders(headers: Headers): Headers {
+    const filtered = new Headers(headers)
+    filtered.delete('content-type')
+    filtered.delete('content-length')
+    return filtered
+}
+
+// Only literal addresses and reserved names can be caught here; Workers can't resolve DNS up front
+function isPrivateHost(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+    if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) {
+        return true
+    }
+
+    const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+    if (ipv4) {
+        const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+        return (
+            a === 0 ||
+            a === 10 ||
+            a === 127 ||
+            (a === 100 && b >= 64 && b <= 127) ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 168)
+        )
+    }
+
+    if (host.includes(':')) {
+        // Loopback, unspecified, unique local (fc00::/7), link-local (fe80::/10) and IPv4-mapped, which URL
+        // normalizes to hex so the IPv4 checks above can't see it
+        return (
+            host === '::1' ||
+            host === '::' ||
+            /^f[cd]/.test(host) ||
+            /^fe[89ab]/.test(host) ||
+            host.startsWith('::ffff:')
+        )
+    }
+    return false
+}
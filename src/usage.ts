@@ -0,0 +1,255 @@
+import { DurableObject } from 'cloudflare:workers'
+import * as types from './types'
+import * as errors from './errors'
+
+// Who made a request and where it went, as recorded alongside its token counts
+export interface Labels {
+    // ClientKey.name, or a fingerprint of the caller's own key
+    key: string
+    route: string
+    // The upstream model, after aliases and fallback
+    model: string
+}
+
+export type Dimension = 'key' | 'model' | 'route' | 'day'
+
+// What the response reported, plus the reasoning share of output_tokens that providers keep out of it
+export type MeteredUsage = Partial<types.ClaudeUsage> & { reasoning_tokens?: number }
+
+const DIMENSIONS: Dimension[] = ['key', 'model', 'route', 'day']
+const COUNTERS = [
+    'requests',
+    'input_tokens',
+    'output_tokens',
+    'cache_creation_input_tokens',
+    'cache_read_input_tokens',
+    'reasoning_tokens'
+] as const
+
+export type UsageRow = Partial<Record<Dimension, string>> & Record<(typeof COUNTERS)[number], number>
+
+// One SQLite-backed instance holds a row per day, key, route and model. Bind it as USAGE_METER; without the
+// binding nothing is recorded.
+export class UsageMeter extends DurableObject<Env> {
+    constructor(ctx: DurableObjectState, env: Env) {
+        super(ctx, env)
+        ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS usage (
+            day TEXT NOT NULL,
+            key TEXT NOT NULL,
+            route TEXT NOT NULL,
+            model TEXT NOT NULL,
+            ${COUNTERS.map(counter => `${counter} INTEGER NOT NULL DEFAULT 0`).join(',\n')},
+            PRIMARY KEY (day, key, route, model)
+        )`)
+    }
+
+    record(day: string, labels: Labels, usage: MeteredUsage): void {
+        const counts = [
+            1,
+            usage.input_tokens || 0,
+            usage.output_tokens || 0,
+            usage.cache_creation_input_tokens || 0,
+            usage.cache_read_input_tokens || 0,
+            usage.reasoning_tokens || 0
+        ]
+        this.ctx.storage.sql.exec(
+            `INSERT INTO usage (day, key, route, model, ${COUNTERS.join(', ')})
+             VALUES (?, ?, ?, ?, ${COUNTERS.map(() => '?').join(', ')})
+             ON CONFLICT (day, key, route, model) DO UPDATE SET
+             ${COUNTERS.map(counter => `${counter} = ${counter} + excluded.${counter}`).join(', ')}`,
+            day,
+            labels.key,
+            labels.route,
+            labels.model,
+            ...counts
+        )
+    }
+
+    // Days are inclusive 'YYYY-MM-DD' bounds; an empty groupBy sums everything into one row
+    query(groupBy: Dimension[], from: string, to: string): UsageRow[] {
+        const columns = groupBy.filter(dimension => DIMENSIONS.includes(dimension))
+        const sums = COUNTERS.map(counter => `SUM(${counter}) AS ${counter}`).join(', ')
+        const grouping = columns.length > 0 ? `GROUP BY ${columns.join(', ')} ORDER BY ${columns.join(', ')}` : ''
+        return this.ctx.storage.sql
+            .exec<UsageRow>(
+                `SELECT ${[...columns, sums].join(', ')} FROM usage WHERE day >= ? AND day <= ? ${grouping}`,
+                from,
+                to
+            )
+            .toArray()
+            .filter(row => row.requests !== null)
+    }
+}
+
+function meter(env: Env): DurableObjectStub<UsageMeter> | undefined {
+    return env.USAGE_METER?.get(env.USAGE_METER.idFromName('global'))
+}
+
+// Names the caller without storing their key: the proxy key's name, else a short hash of whatever key they sent
+export async function clientLabel(client: string | undefined, presentedKey: string | undefined): Promise<string> {
+    if (client) {
+        return client
+    }
+    if (!presentedKey) {
+        return 'anonymous'
+    }
+    const token = presentedKey.replace(/^Bearer\s+/i, '')
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+    const hex = [...new Uint8Array(digest).slice(0, 6)].map(byte => byte.toString(16).padStart(2, '0')).join('')
+    return `key-${hex}`
+}
+
+// Records the usage a successful Claude response reports. Streams are read as they pass through to the client,
+// so a request is counted when its stream ends, including one the client abandoned halfway. reasoningTokens is
+// asked at that point, since the provider only learns it from the upstream's final usage.
+export function track(
+    env: Env,
+    ctx: ExecutionContext,
+    response: Response,
+    labels: Labels,
+    reasoningTokens: () => number | undefined
+): Response {
+    const stub = meter(env)
+    if (!stub || !response.ok || !response.body) {
+        return response
+    }
+    const record = (usage: Partial<types.ClaudeUsage>) =>
+        ctx.waitUntil(
+            stub
+                .record(new Date().toISOString().slice(0, 10), labels, {
+                    ...usage,
+                    reasoning_tokens: reasoningTokens()
+                })
+                .catch(error => {
+                    console.error('Failed to record usage:', error)
+                })
+        )
+
+    if (!(response.headers.get('content-type') || '').includes('text/event-stream')) {
+        ctx.waitUntil(
+            response
+                .clone()
+                .json()
+                .then(data => record((data as types.ClaudeResponse).usage || {}))
+                .catch(() => {})
+        )
+        return response
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let usage: Partial<types.ClaudeUsage> = {}
+    let buffer = ''
+    let recorded = false
+    const finish = () => {
+        if (!recorded) {
+            recorded = true
+            record(usage)
+        }
+    }
+    // message_start carries the input side, message_delta the running output count
+    const scan = (text: string) => {
+        buffer += text
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+        for (const line of lines) {
+            if (!line.startsWith('data:') || !line.includes('usage')) {
+                continue
+            }
+            try {
+                const data = JSON.parse(line.slice(5).trim())
+                const reported = data.type === 'message_start' ? data.message?.usage : data.usage
+                if (reported) {
+                    usage = { ...usage, ...reported }
+                }
+            } catch {
+                // Not every data line is JSON
+            }
+        }
+    }
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const { done, value } = await reader.read()
+            if (done) {
+                scan(decoder.decode())
+                finish()
+                controller.close()
+                return
+            }
+            scan(decoder.decode(value, { stream: true }))
+            controller.enqueue(value)
+        },
+        cancel(reason) {
+            finish()
+            return reader.cancel(reason)
+        }
+    })
+    return new Response(body, response)
+}
+
+// GET /admin/usage?group_by=key,model&from=2025-01-01&to=2025-01-31&format=csv, authenticated with ADMIN_KEY
+export async function handleAdmin(request: Request, env: Env): Promise<Response> {
+    if (!env.ADMIN_KEY) {
+        return errors.errorResponse(404, 'not_found_error', 'Not found')
+    }
+    if (request.method !== 'GET') {
+        return errors.errorResponse(405, 'invalid_request_error', 'Method not allowed')
+    }
+    const presented = (request.headers.get('x-api-key') || request.headers.get('authorization') || '').replace(
+        /^Bearer\s+/i,
+        ''
+    )
+    if (!sameKey(presented, env.ADMIN_KEY)) {
+        return errors.errorResponse(401, 'authentication_error', 'Invalid admin key')
+    }
+    const stub = meter(env)
+    if (!stub) {
+        return errors.errorResponse(500, 'api_error', 'Usage metering is not configured, bind USAGE_METER')
+    }
+
+    const params = new URL(request.url).searchParams
+    const groupBy = (params.get('group_by') ?? DIMENSIONS.join(','))
+        .split(',')
+        .map(dimension => dimension.trim())
+        .filter(dimension => dimension !== '')
+    const unknown = groupBy.filter(dimension => !DIMENSIONS.includes(dimension as Dimension))
+    if (unknown.length > 0) {
+        return errors.errorResponse(
+            400,
+            'invalid_request_error',
+            `Unknown group_by ${unknown.join(', ')}; use ${DIMENSIONS.join(', ')}`
+        )
+    }
+    const from = params.get('from') || '0000-00-00'
+    const to = params.get('to') || '9999-99-99'
+    if (![from, to].every(day => /^\d{4}-\d{2}-\d{2}$/.test(day))) {
+        return errors.errorResponse(400, 'invalid_request_error', 'from and to must be YYYY-MM-DD')
+    }
+
+    const rows = await stub.query(groupBy as Dimension[], from, to)
+    if (params.get('format') === 'csv') {
+        const columns = [...groupBy, ...COUNTERS]
+        const lines = [columns, ...rows.map(row => columns.map(column => String(row[column as keyof UsageRow] ?? '')))]
+        return new Response(lines.map(line => line.map(csvField).join(',')).join('\r\n') + '\r\n', {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': 'attachment; filename="usage.csv"'
+            }
+        })
+    }
+    return new Response(JSON.stringify({ group_by: groupBy, from, to, data: rows }), {
+        headers: { 'Content-Type': 'application/json' }
+    })
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function sameKey(presented: string, expected: string): boolean {
+    const encoder = new TextEncoder()
+    const a = encoder.encode(presented)
+    const b = encoder.encode(expected)
+    return a.byteLength === b.byteLength && crypto.subtle.timingSafeEqual(a, b)
+}
@@ -1,105 +1,541 @@
+import * as types from './types'
+import * as errors from './errors'
+
 export function generateId(): string {
     return Math.random().toString(36).substring(2)
 }
 
-export function sendMessageStart(controller: ReadableStreamDefaultController): void {
-    const event = `event: message_start\ndata: ${JSON.stringify({
-        type: 'message_start',
-        message: {
-            id: generateId(),
-            type: 'message',
-            role: 'assistant',
-            content: []
-        }
-    })}\n\n`
-    controller.enqueue(new TextEncoder().encode(event))
-}
-
-export function sendMessageStop(controller: ReadableStreamDefaultController): void {
-    const event = `event: message_stop\ndata: ${JSON.stringify({
-        type: 'message_stop'
-    })}\n\n`
-    controller.enqueue(new TextEncoder().encode(event))
-}
-
-export function processTextPart(text: string, index: number): string[] {
-    const events: string[] = []
+type ContentBlockType = 'text' | 'thinking' | 'tool_use'
 
-    events.push(
-        `event: content_block_start\ndata: ${JSON.stringify({
-            type: 'content_block_start',
-            index,
-            content_block: {
-                type: 'text',
-                text: ''
-            }
-        })}\n\n`
-    )
+// Builds the Anthropic SSE events for one message. Consecutive deltas of the same kind stay in one
+// open block, and every block takes its index from a single shared counter. message_start is sent
+// lazily so that usage reported before the first content (e.g. by Gemini) lands in it.
+export class ClaudeStreamEmitter {
+    private events: string[] = []
+    private nextIndex = 0
+    private openBlock: { index: number; type: ContentBlockType } | null = null
+    private started = false
+    private hasToolUse = false
+    private hasFailed = false
+    private stopReason: types.ClaudeStopReason | null = null
+    private stopSequence: string | null = null
+    // Arguments streamed into the open tool_use block so far
+    private toolInput = ''
+    private usage: types.ClaudeUsage = { input_tokens: 0, output_tokens: 0 }
 
-    events.push(
-        `event: content_block_delta\ndata: ${JSON.stringify({
+    constructor(private model: string) {}
+
+    setUsage(usage: Partial<types.ClaudeUsage>): void {
+        this.usage = { ...this.usage, ...usage }
+    }
+
+    setStopReason(stopReason: types.ClaudeStopReason, stopSequence: string | null = null): void {
+        this.stopReason = stopReason
+        this.stopSequence = stopSequence
+    }
+
+    text(text: string): void {
+        const index = this.ensureBlock('text', { type: 'text', text: '' })
+        this.push('content_block_delta', { type: 'content_block_delta', index, delta: { type: 'text_delta', text } })
+    }
+
+    thinking(thinking: string, signature?: string): void {
+        const index = this.ensureBlock('thinking', { type: 'thinking', thinking: '' })
+        if (thinking) {
+            this.push('content_block_delta', {
+                type: 'content_block_delta',
+                index,
+                delta: { type: 'thinking_delta', thinking }
+            })
+        }
+        if (signature) {
+            this.push('content_block_delta', {
+                type: 'content_block_delta',
+                index,
+                delta: { type: 'signature_delta', signature }
+            })
+        }
+    }
+
+    toolUse(functionCall: { name: string; args: any; id?: string }): void {
+        // If upstream provided a stable id (e.g., OpenAI tool_call.id), use it;
+        // otherwise generate one for providers that don't expose ids (e.g., Gemini).
+        this.startToolUse(functionCall.id || generateId(), functionCall.name)
+        this.toolInputDelta(JSON.stringify(functionCall.args))
+        this.closeBlock()
+    }
+
+    startToolUse(id: string, name: string): void {
+        this.hasToolUse = true
+        this.startBlock('tool_use', { type: 'tool_use', id, name, input: {} })
+        this.toolInput = ''
+    }
+
+    // Appends a fragment of the open tool_use block's JSON arguments
+    toolInputDelta(partialJson: string): void {
+        if (!this.openBlock || this.openBlock.type !== 'tool_use' || !partialJson) {
+            return
+        }
+        this.toolInput += partialJson
+        this.push('content_block_delta', {
             type: 'content_block_delta',
-            index,
-            delta: {
-                type: 'text_delta',
-                text
-            }
-        })}\n\n`
-    )
-
-    events.push(
-        `event: content_block_stop\ndata: ${JSON.stringify({
-            type: 'content_block_stop',
-            index
-        })}\n\n`
-    )
+            index: this.openBlock.index,
+            delta: { type: 'input_json_delta', partial_json: partialJson }
+        })
+    }
 
-    return events
-}
+    finish(): void {
+        this.closeBlock()
+        let stopReason = this.stopReason || 'end_turn'
+        if (this.hasToolUse && stopReason === 'end_turn') {
+            stopReason = 'tool_use'
+        }
+        this.push('message_delta', {
+            type: 'message_delta',
+            delta: {
+                stop_reason: stopReason,
+                stop_sequence: stopReason === 'stop_sequence' ? this.stopSequence : null
+            },
+            usage: this.usage
+        })
+        this.push('message_stop', { type: 'message_stop' })
+    }
 
-export function processToolUsePart(
-    functionCall: { name: string; args: any; id?: string },
-    index: number
-): string[] {
-    const events: string[] = []
-    // If upstream provided a stable id (e.g., OpenAI tool_call.id), use it;
-    // otherwise generate one for providers that don't expose ids (e.g., Gemini).
-    const toolUseId = functionCall.id || generateId()
-
-    events.push(
-        `event: content_block_start\ndata: ${JSON.stringify({
-            type: 'content_block_start',
-            index,
-            content_block: {
-                type: 'tool_use',
-                id: toolUseId,
-                name: functionCall.name,
-                input: {}
+    closeBlock(): void {
+        if (!this.openBlock) {
+            return
+        }
+        if (this.openBlock.type === 'tool_use') {
+            // Arguments cut off upstream (e.g. by max_tokens) would make the client's JSON.parse fail
+            const repair = jsonRepairSuffix(this.toolInput)
+            if (repair) {
+                this.push('content_block_delta', {
+                    type: 'content_block_delta',
+                    index: this.openBlock.index,
+                    delta: { type: 'input_json_delta', partial_json: repair }
+                })
+            } else if (repair === undefined) {
+                console.warn('Unrepairable tool arguments:', this.toolInput.slice(0, 200))
             }
-        })}\n\n`
-    )
-
-    events.push(
-        `event: content_block_delta\ndata: ${JSON.stringify({
-            type: 'content_block_delta',
-            index,
-                delta: {
-                    type: 'input_json_delta',
-                    partial_json: JSON.stringify(functionCall.args)
+        }
+        this.push('content_block_stop', { type: 'content_block_stop', index: this.openBlock.index })
+        this.openBlock = null
+    }
+
+    // Keeps idle connections (and the client's own timeout) alive while the upstream is silent
+    ping(): void {
+        this.push('ping', { type: 'ping' })
+    }
+
+    // Terminates the stream with an Anthropic error event; no message_delta/message_stop follows
+    fail(type: errors.ClaudeErrorType, message: string): void {
+        this.hasFailed = true
+        this.write('error', errors.errorBody(type, message))
+    }
+
+    get failed(): boolean {
+        return this.hasFailed
+    }
+
+    drain(): string[] {
+        const events = this.events
+        this.events = []
+        return events
+    }
+
+    private ensureBlock(type: ContentBlockType, contentBlock: object): number {
+        if (this.openBlock && this.openBlock.type === type) {
+            return this.openBlock.index
+        }
+        return this.startBlock(type, contentBlock)
+    }
+
+    private startBlock(type: ContentBlockType, contentBlock: object): number {
+        this.closeBlock()
+        const index = this.nextIndex++
+        this.push('content_block_start', { type: 'content_block_start', index, content_block: contentBlock })
+        this.openBlock = { index, type }
+        return index
+    }
+
+    private push(event: string, data: object): void {
+        if (!this.started) {
+            this.started = true
+            this.write('message_start', {
+                type: 'message_start',
+                message: {
+                    id: generateId(),
+                    type: 'message',
+                    role: 'assistant',
+                    model: this.model,
+                    content: [],
+                    stop_reason: null,
+                    stop_sequence: null,
+                    usage: { ...this.usage, output_tokens: 0 }
                 }
-        })}\n\n`
-    )
-
-    events.push(
-        `event: content_block_stop\ndata: ${JSON.stringify({
-            type: 'content_block_stop',
-            index
-        })}\n\n`
-    )
-
-    return events
+            })
+        }
+        this.write(event, data)
+    }
+
+    private write(event: string, data: object): void {
+        this.events.push(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    }
 }
 
+// Flattens the top-level system prompt (a string or text blocks, with or without cache_control)
+// into plain text; upstreams have no notion of Anthropic's prompt cache breakpoints
+export function extractSystemText(systemField: types.ClaudeRequest['system']): string | undefined {
+    if (!systemField) return undefined
+    if (typeof systemField === 'string') return systemField
+    // Tolerate a single block sent without the surrounding array
+    const arr: any[] = Array.isArray(systemField) ? systemField : [systemField]
+    const parts: string[] = []
+    for (const item of arr) {
+        if (item && typeof item === 'object' && item.type === 'text' && typeof item.text === 'string') {
+            parts.push(item.text)
+        }
+    }
+    if (parts.length === 0) return undefined
+    return parts.join('\n')
+}
+
+export function imageSourceToUrl(source: types.ClaudeImageSource): string {
+    if (source.type === 'base64') {
+        return `data:${source.media_type};base64,${source.data}`
+    }
+    return source.url
+}
+
+// OpenAI only exposes coarse effort levels, so bucket Claude's token budget into them
+export function thinkingBudgetToEffort(budgetTokens: number): 'low' | 'medium' | 'high' {
+    if (budgetTokens < 4096) {
+        return 'low'
+    }
+    if (budgetTokens < 16384) {
+        return 'medium'
+    }
+    return 'high'
+}
+
+export function openAIFinishReasonToStopReason(finishReason: string | null | undefined): types.ClaudeStopReason {
+    switch (finishReason) {
+        case 'length':
+            return 'max_tokens'
+        case 'tool_calls':
+        case 'function_call':
+            return 'tool_use'
+        default:
+            return 'end_turn'
+    }
+}
+
+// Plain OpenAI reports finish_reason 'stop' whether or not a stop sequence matched; vLLM and SGLang
+// also say which one did. Gemini has no equivalent, so its stop sequences end as end_turn.
+export function openAIMatchedStopSequence(
+    choice: types.OpenAIMatchedStop,
+    stopSequences: string[] | undefined
+): string | undefined {
+    for (const matched of [choice.stop_reason, choice.matched_stop]) {
+        if (typeof matched === 'string' && stopSequences?.includes(matched)) {
+            return matched
+        }
+    }
+    return undefined
+}
+
+export function geminiFinishReasonToStopReason(finishReason: string | undefined): types.ClaudeStopReason {
+    return finishReason === 'MAX_TOKENS' ? 'max_tokens' : 'end_turn'
+}
+
+// Claude reports cached prompt tokens separately from input_tokens, and counts thinking as output
+export function openAIUsageToClaudeUsage(usage: types.OpenAIUsage): types.ClaudeUsage {
+    const cached = usage.prompt_tokens_details?.cached_tokens || 0
+    return {
+        input_tokens: usage.prompt_tokens - cached,
+        output_tokens: usage.completion_tokens,
+        cache_read_input_tokens: cached
+    }
+}
+
+export function geminiUsageToClaudeUsage(usage: types.GeminiUsageMetadata): types.ClaudeUsage {
+    const cached = usage.cachedContentTokenCount || 0
+    return {
+        input_tokens: usage.promptTokenCount - cached,
+        output_tokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+        cache_read_input_tokens: cached
+    }
+}
+
+const CJK_PATTERN = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g
+// Claude bills roughly (width * height) / 750 tokens per image; assume a ~1 MP screenshot
+const ESTIMATED_IMAGE_TOKENS = 1600
+const ESTIMATED_MESSAGE_OVERHEAD_TOKENS = 4
+
+function estimateTextTokens(text: string): number {
+    const cjk = (text.match(CJK_PATTERN) || []).length
+    return cjk + Math.ceil((text.length - cjk) / 4)
+}
+
+function estimateBlockTokens(block: any): number {
+    if (typeof block === 'string') {
+        return estimateTextTokens(block)
+    }
+    if (!block || typeof block !== 'object') {
+        return 0
+    }
+    switch (block.type) {
+        case 'text':
+            return estimateTextTokens(block.text || '')
+        case 'thinking':
+            return estimateTextTokens(block.thinking || '')
+        case 'image':
+            return ESTIMATED_IMAGE_TOKENS
+        case 'tool_use':
+            return estimateTextTokens(block.name + JSON.stringify(block.input ?? {}))
+        case 'tool_result':
+            return Array.isArray(block.content)
+                ? block.content.reduce((sum: number, item: any) => sum + estimateBlockTokens(item), 0)
+                : estimateBlockTokens(block.content)
+        default:
+            return 0
+    }
+}
+
+// Local estimate for upstreams without a token counting endpoint: about four characters per token
+// for Latin text and one per CJK character. Good enough for context meters, not for billing.
+export function estimateInputTokens(claudeRequest: types.ClaudeRequest): number {
+    let tokens = 0
+
+    const system: unknown = claudeRequest.system
+    const systemBlocks = Array.isArray(system) ? system : system ? [system] : []
+    for (const block of systemBlocks) {
+        tokens += estimateBlockTokens(block)
+    }
+
+    for (const message of claudeRequest.messages || []) {
+        tokens += ESTIMATED_MESSAGE_OVERHEAD_TOKENS
+        const blocks = typeof message.content === 'string' ? [message.content] : message.content
+        for (const block of blocks) {
+            tokens += estimateBlockTokens(block)
+        }
+    }
+
+    for (const tool of claudeRequest.tools || []) {
+        tokens += estimateTextTokens(tool.name + (tool.description || '') + JSON.stringify(tool.input_schema))
+    }
+
+    return tokens
+}
+
+export function countTokensResponse(inputTokens: number): Response {
+    return new Response(JSON.stringify({ input_tokens: inputTokens }), {
+        headers: {
+            'Content-Type': 'application/json'
+        }
+    })
+}
+
+// OpenAI accepts at most 4 stop sequences and Gemini 5
+export function clampStopSequences(stopSequences: string[] | undefined, limit: number, warnings: string[]): string[] {
+    const sequences = stopSequences || []
+    if (sequences.length > limit) {
+        warnings.push(`stop_sequences truncated to the first ${limit} (upstream limit)`)
+    }
+    return sequences.slice(0, limit)
+}
+
+const PARTIAL_LITERAL = /(?:^|[\s,:[])(t|tr|tru|f|fa|fal|fals|n|nu|nul)$/
+const LITERAL_REST: { [prefix: string]: string } = {
+    t: 'rue',
+    tr: 'ue',
+    tru: 'e',
+    f: 'alse',
+    fa: 'lse',
+    fal: 'se',
+    fals: 'e',
+    n: 'ull',
+    nu: 'll',
+    nul: 'l'
+}
+
+// Returns what to append so that a JSON document cut off mid-way parses again: '' when it already
+// parses (or is empty), undefined when it can't be closed by appending (e.g. a trailing comma)
+export function jsonRepairSuffix(partial: string): string | undefined {
+    if (partial.trim() === '') {
+        return ''
+    }
+    try {
+        JSON.parse(partial)
+        return ''
+    } catch {
+        // Cut off; try to close it below
+    }
+
+    const closers: string[] = []
+    let inString = false
+    let escaped = false
+    let stringIsKey = false
+    let last = ''
+    for (const char of partial) {
+        if (inString) {
+            if (escaped) {
+                escaped = false
+            } else if (char === '\\') {
+                escaped = true
+            } else if (char === '"') {
+                inString = false
+                last = stringIsKey ? 'key' : '"'
+            }
+            continue
+        }
+        if (char === '"') {
+            inString = true
+            stringIsKey = closers[closers.length - 1] === '}' && (last === '{' || last === ',')
+        } else if (char === '{') {
+            closers.push('}')
+        } else if (char === '[') {
+            closers.push(']')
+        } else if (char === '}' || char === ']') {
+            closers.pop()
+        }
+        if (!/\s/.test(char) && char !== '"') {
+            last = char
+        }
+    }
+
+    let suffix = ''
+    if (inString) {
+        suffix += (escaped ? '\\' : '') + '"'
+        last = stringIsKey ? 'key' : '"'
+    }
+    if (last === 'key') {
+        suffix += ':null'
+    } else if (last === ':') {
+        suffix += 'null'
+    } else if (!inString) {
+        const literal = partial.match(PARTIAL_LITERAL)
+        if (literal) {
+            suffix += LITERAL_REST[literal[1]]
+        } else if (/[-.eE+]$/.test(partial)) {
+            suffix += '0'
+        }
+    }
+    suffix += closers.reverse().join('')
+
+    try {
+        JSON.parse(partial + suffix)
+        return suffix
+    } catch {
+        return undefined
+    }
+}
+
+type OpenAIToolCallDelta = NonNullable<types.OpenAIStreamChoice['delta']['tool_calls']>[number]
+
+interface StreamedToolCall {
+    id?: string
+    name?: string
+    arguments: string
+    state: 'pending' | 'open' | 'closed'
+}
+
+// OpenAI chat streams each tool call as deltas keyed by index: id and name in the first one, then
+// argument fragments. The first call becomes a tool_use block as soon as its name is known and its
+// fragments are forwarded as input_json_delta. Anthropic blocks can't interleave and a call may still
+// receive fragments after a later index has started, so later calls are buffered and emitted whole
+// once the stream says the calls are complete.
+export class OpenAIToolCallStream {
+    private calls = new Map<number, StreamedToolCall>()
+    private openIndex: number | undefined
+
+    push(emitter: ClaudeStreamEmitter, toolCall: OpenAIToolCallDelta): void {
+        const index = toolCall.index ?? 0
+        let call = this.calls.get(index)
+        if (!call) {
+            call = { arguments: '', state: 'pending' }
+            this.calls.set(index, call)
+        }
+        if (call.state === 'closed') {
+            console.warn(`Dropping tool call ${index} fragment that arrived after its block was closed`)
+            return
+        }
+
+        if (toolCall.id) {
+            call.id = toolCall.id
+        }
+        if (toolCall.function?.name) {
+            call.name = toolCall.function.name
+        }
+        const fragment = toolCall.function?.arguments || ''
+        call.arguments += fragment
+
+        if (call.state === 'open') {
+            emitter.toolInputDelta(fragment)
+        } else if (call.name && this.openIndex === undefined) {
+            this.open(emitter, index)
+        }
+    }
+
+    // Closes the open call, then emits the buffered ones in index order; call on finish_reason and stream end
+    finish(emitter: ClaudeStreamEmitter): void {
+        this.close(emitter)
+        const pending = [...this.calls.entries()]
+            .filter(([, call]) => call.state === 'pending')
+            .sort(([a], [b]) => a - b)
+        for (const [index, call] of pending) {
+            if (call.name) {
+                this.open(emitter, index)
+                this.close(emitter)
+            } else {
+                console.warn(`Dropping tool call ${index} without a function name`)
+                call.state = 'closed'
+            }
+        }
+    }
+
+    private open(emitter: ClaudeStreamEmitter, index: number): void {
+        const call = this.calls.get(index)!
+        // Some OpenAI-compatible servers omit tool_call ids
+        emitter.startToolUse(call.id || generateId(), call.name!)
+        emitter.toolInputDelta(call.arguments)
+        call.state = 'open'
+        this.openIndex = index
+    }
+
+    private close(emitter: ClaudeStreamEmitter): void {
+        if (this.openIndex === undefined) {
+            return
+        }
+        this.calls.get(this.openIndex)!.state = 'closed'
+        this.openIndex = undefined
+        emitter.closeBlock()
+    }
+}
+
+const WARNING_HEADER = 'x-claude-proxy-warning'
+// Silence after which a ping goes out; well below the usual 60s+ idle cutoffs of proxies and load balancers
+export const PING_INTERVAL_MS = 15000
+const MAX_WARNING_HEADERS = 20
+
+// Reports parameters that were dropped or clamped for the upstream without failing the request
+export function withWarnings(response: Response, warnings: string[]): Response {
+    if (warnings.length === 0) {
+        return response
+    }
+
+    const headers = new Headers(response.headers)
+    const shown = warnings.slice(0, MAX_WARNING_HEADERS)
+    if (warnings.length > shown.length) {
+        shown.push(`${warnings.length - shown.length} more warnings omitted`)
+    }
+    for (const warning of shown) {
+        // Header values must stay printable ASCII
+        headers.append(WARNING_HEADER, warning.replace(/[^\x20-\x7e]/g, '?'))
+    }
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers })
+}
+
 export function buildUrl(baseUrl: string, endpoint: string): string {
     let finalUrl = baseUrl
     if (!finalUrl.endsWith('/')) {
@@ -110,29 +546,78 @@ export function buildUrl(baseUrl: string, endpoint: string): string {
 
 export async function processProviderStream(
     providerResponse: Response,
-    processLine: (
-        jsonStr: string,
-        textIndex: number,
-        toolIndex: number
-    ) => { events: string[]; textBlockIndex: number; toolUseBlockIndex: number } | null
+    model: string,
+    processEvent: (data: any, emitter: ClaudeStreamEmitter) => void,
+    // Runs once the upstream stream ended cleanly, before message_delta/message_stop
+    onEnd?: (emitter: ClaudeStreamEmitter) => void
 ): Promise<Response> {
+    const reader = providerResponse.body?.getReader()
+    // Set once the client goes away; nothing may be enqueued after that
+    let cancelled = false
+
     const stream = new ReadableStream({
         async start(controller) {
-            const reader = providerResponse.body?.getReader()
             if (!reader) {
                 controller.close()
                 return
             }
 
+            const encoder = new TextEncoder()
             const decoder = new TextDecoder()
+            const emitter = new ClaudeStreamEmitter(model)
             let buffer = ''
-            let textBlockIndex = 0
-            let toolUseBlockIndex = 0
-
-            sendMessageStart(controller)
+            let failed = false
+            let lastSentAt = Date.now()
+
+            const flush = () => {
+                if (cancelled) {
+                    emitter.drain()
+                    return
+                }
+                for (const event of emitter.drain()) {
+                    controller.enqueue(encoder.encode(event))
+                    lastSentAt = Date.now()
+                }
+            }
 
+            const pingTimer = setInterval(() => {
+                if (Date.now() - lastSentAt >= PING_INTERVAL_MS) {
+                    emitter.ping()
+                    flush()
+                }
+            }, PING_INTERVAL_MS / 2)
+
+            // Returns true when the line carried an upstream error and the stream has to stop
+            const handleLine = (line: string): boolean => {
+                if (!line.startsWith('data:')) return false
+
+                const jsonStr = line.slice(5).trim()
+                if (!jsonStr || jsonStr === '[DONE]') return false
+
+                let data: any
+                try {
+                    data = JSON.parse(jsonStr)
+                } catch {
+                    console.warn('Skipping malformed upstream SSE chunk:', jsonStr.slice(0, 200))
+                    return false
+                }
+
+                const upstreamError = errors.extractStreamError(data)
+                if (upstreamError) {
+                    emitter.fail(upstreamError.type, upstreamError.message)
+                    return true
+                }
+
+                try {
+                    processEvent(data, emitter)
+                } catch (error) {
+                    console.error('Failed to convert upstream SSE chunk:', error)
+                }
+                return emitter.failed
+            }
+
             try {
-                while (true) {
+                while (!failed && !cancelled) {
                     const { done, value } = await reader.read()
                     if (done) break
 
@@ -142,35 +627,45 @@ export async function processProviderStream(
                     buffer = lines.pop() || ''
 
                     for (const line of lines) {
-                        if (!line.trim() || !line.startsWith('data: ')) continue
-
-                        const jsonStr = line.slice(6)
-                        if (jsonStr === '[DONE]') continue
-
-                        const result = processLine(jsonStr, textBlockIndex, toolUseBlockIndex)
-                        if (result) {
-                            textBlockIndex = result.textBlockIndex
-                            toolUseBlockIndex = result.toolUseBlockIndex
-
-                            for (const event of result.events) {
-                                controller.enqueue(new TextEncoder().encode(event))
-                            }
-                        }
+                        failed = handleLine(line)
+                        flush()
+                        if (failed) break
                     }
                 }
-            } finally {
-                if (buffer.trim()) {
-                    const result = processLine(buffer.slice(6), textBlockIndex, toolUseBlockIndex)
-                    if (result) {
-                        for (const event of result.events) {
-                            controller.enqueue(new TextEncoder().encode(event))
-                        }
-                    }
+                if (!failed && buffer.trim()) {
+                    failed = handleLine(buffer)
                 }
+            } catch (error) {
+                if (!cancelled) {
+                    console.error('Upstream stream read failed:', error)
+                    const reason = error instanceof Error ? error.message : String(error)
+                    emitter.fail('api_error', `Upstream stream interrupted: ${reason}`)
+                }
+                failed = true
+            }
+            clearInterval(pingTimer)
+
+            if (cancelled) {
+                return
+            }
+            if (failed) {
+                await reader.cancel().catch(() => {})
+            } else {
+                try {
+                    onEnd?.(emitter)
+                } catch (error) {
+                    console.error('Failed to finish upstream SSE conversion:', error)
+                }
+                emitter.finish()
                 reader.releaseLock()
-                sendMessageStop(controller)
-                controller.close()
             }
+            flush()
+            controller.close()
+        },
+        // The client disconnected: stop reading so the upstream request is torn down too
+        async cancel(reason) {
+            cancelled = true
+            await reader?.cancel(reason).catch(() => {})
         }
     })
 
@@ -183,29 +678,3 @@ export async function processProviderStream(
         }
     })
 }
-
-export function cleanJsonSchema(schema: any): any {
-    if (!schema || typeof schema !== 'object') {
-        return schema
-    }
-
-    const cleaned = { ...schema }
-
-    for (const key in cleaned) {
-        if (key === '$schema' || key === 'title' || key === 'examples') {
-            delete cleaned[key]
-        } else if (key === 'enum' && Array.isArray(cleaned[key])) {
-            cleaned[key] = cleaned[key]
-        } else if (key === 'format' && cleaned.type === 'string') {
-            delete cleaned[key]
-        } else if (key === 'properties' && typeof cleaned[key] === 'object') {
-            cleaned[key] = cleanJsonSchema(cleaned[key])
-        } else if (key === 'items' && typeof cleaned[key] === 'object') {
-            cleaned[key] = cleanJsonSchema(cleaned[key])
-        } else if (typeof cleaned[key] === 'object' && !Array.isArray(cleaned[key])) {
-            cleaned[key] = cleanJsonSchema(cleaned[key])
-        }
-    }
-
-    return cleaned
-}